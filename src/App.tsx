@@ -6,19 +6,43 @@ import { TimeSeriesPlot } from '@/components/timeSeriesPlot';
 import { useDateRangeStore } from '@/Store/dateRangeStore';
 import { formatTime } from '@/lib/UPlot.utils';
 import RadixDatetimeSlider from '@/components/datetimeSlider';
+import ProfilePlot from '@/components/ProfilePlot';
+import MapView from '@/components/MapView';
+import CompassPlot from '@/components/CompassPlot';
+import VelocityPanel from '@/components/VelocityPanel';
+import AcousticNavigationPanel from '@/components/AcousticNavigationPanel';
+import RangeTimePlot from '@/components/RangeTimePlot';
+import ReceiverTable from '@/components/ReceiverTable';
+import OffsetCoveragePlot from '@/components/OffsetCoveragePlot';
+import ReceiverQcPanel from '@/components/ReceiverQcPanel';
+import DataImportPanel from '@/components/DataImportPanel';
+import ColumnMappingPanel from '@/components/ColumnMappingPanel';
+import ImportStatusBar from '@/components/ImportStatusBar';
+import PlaybackBar from '@/components/PlaybackBar';
+import Panel from '@/components/Panel';
+import { applyUrlState, getShareLink, parseUrlState, startUrlSync } from '@/lib/urlState';
 
 function App() {
   const loadData = useShipStore((state) => state.loadData);
   const loadReceiverData = useReceiverStore((state) => state.loadData);
   const { minDate, maxDate } = useDateRangeStore();
   const [isLoading, setIsLoading] = useState(true);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Data from local files, pasted text or appended imports cannot be loaded again from a link
+  const shipUnshared = useShipStore((state) => state.columns.length > 0 && state.source === null);
+  const receiverUnshared = useReceiverStore((state) => state.data.length > 0 && state.source === null);
+  const unsharedDatasets = [...(shipUnshared ? ['ship'] : []), ...(receiverUnshared ? ['receiver'] : [])];
 
   useEffect(() => {
     const fetchData = async () => {
       setIsLoading(true);
       try {
-        await loadData();
-        await loadReceiverData();
+        // A shared link names its datasets and view; without one the demo data is shown
+        const urlState = parseUrlState(window.location.search);
+        await loadData(urlState?.ship ?? undefined);
+        await loadReceiverData(urlState?.receiver ?? undefined);
+        if (urlState) applyUrlState(urlState);
       } catch (error) {
         console.error('Error loading data:', error);
       } finally {
@@ -29,6 +53,21 @@ function App() {
     fetchData();
   }, [loadData, loadReceiverData]);
 
+  // Keep the URL in step with the view once the shared view has been restored
+  useEffect(() => {
+    if (!isLoading) return startUrlSync();
+  }, [isLoading]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareLink());
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
   // Format the active date range for display
   const getActiveDateRangeText = () => {
     if (!minDate || !maxDate) return null;
@@ -45,53 +84,92 @@ function App() {
 
   return (
     <div className="p-4 space-y-4 min-h-screen">
-      <header>
-        <h1 className="text-2xl font-bold mb-4">CSEM Navigation Visualization and Analysis</h1>
+      <header className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h1 className="text-2xl font-bold">CSEM Navigation Visualization and Analysis</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {unsharedDatasets.length > 0 && (
+            <span className="text-xs text-gray-600">
+              The {unsharedDatasets.join(' and ')} data was loaded from disk, pasted or appended, so the
+              link opens the example data instead
+            </span>
+          )}
+          <button
+            onClick={handleCopyLink}
+            disabled={isLoading}
+            title="Copy a link to this view, including datasets, date range, panels and zoom"
+            className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors"
+          >
+            {linkCopied ? 'Link copied' : 'Copy link'}
+          </button>
+        </div>
       </header>
       
       {isLoading ? (
-        <div className="p-4 text-center loading">
-          <p>Loading data...</p>
+        <div className="p-4 max-w-xl mx-auto loading">
+          <ImportStatusBar />
         </div>
       ) : (
         <>
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <DataImportPanel />
+            <ColumnMappingPanel />
+          </div>
+
           {getActiveDateRangeText()}
 
           <div className="w-full mb-6 sticky top-0 bg-white z-10">
             <RadixDatetimeSlider />
+            <PlaybackBar />
           </div>
 
           <div className="grid grid-cols-1 xl:grid-cols-15 gap-6">
             <div className="xl:col-span-7 space-y-6">
-              <div className="w-full p-6 rounded-lg shadow-md">
-                <h2 className="text-lg font-bold mb-2">Depth Time Series</h2>
+              <Panel id="depth" title="Depth Time Series">
                 <DepthTimeSeriesPlot />   
-              </div>
+              </Panel>
 
-              <div className="w-full p-6 rounded-lg shadow-md">
-                <h2 className="text-lg font-bold mb-2">Altitude Time Series</h2>
+              <Panel id="altitude" title="Altitude Time Series">
                 <TimeSeriesPlot dataColumn="suesiAltitude"
                   MAX_POINTS={20000}
                   title=""
                 />
-              </div>
+              </Panel>
 
-              <div className="w-full p-6 rounded-lg shadow-md">
-                <h2 className="text-lg font-bold mb-2">Heading Time Series</h2>
-                <TimeSeriesPlot dataColumn="shipHeading"
-                  MAX_POINTS={20000}
-                  title=""
-                />
-              </div>
+              <Panel id="compass" title="Compass Headings">
+                <CompassPlot />
+              </Panel>
+
+              <Panel id="velocity" title="Velocity Time Series">
+                <VelocityPanel />
+              </Panel>
+
+              <Panel id="range" title="Range Time">
+                <RangeTimePlot />
+              </Panel>
+
+              <Panel id="lbl" title="Acoustic Navigation (Barracuda LBL)">
+                <AcousticNavigationPanel />
+              </Panel>
             </div>
             <div className="xl:col-span-8 space-y-6">
-              <div className="w-full p-6 rounded-lg shadow-md">
-                <h2 className="text-lg font-bold mb-2">Position Plot</h2>
+              <Panel id="map" title="Map View">
+                <MapView />
+              </Panel>
+              <Panel id="position" title="Position Plot">
                 <BubblePlot />
-              </div>
-              <div className="w-full h-[500px] p-6 rounded-lg shadow-md">
-                <h2 className="text-lg font-bold mb-2">Along Profile Plot</h2>
-              </div>
+              </Panel>
+              <Panel id="passes" title="Receiver Passes">
+                <ReceiverTable />
+              </Panel>
+              <Panel id="coverage" title="Offset Coverage">
+                <OffsetCoveragePlot />
+              </Panel>
+              <Panel id="receiverQc" title="Receiver Deployment QC">
+                <ReceiverQcPanel />
+              </Panel>
+              <Panel id="profile" title="Along Profile Plot">
+                <ProfilePlot />
+              </Panel>
             </div>
           </div>
         </>
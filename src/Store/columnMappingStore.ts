@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ColumnMapping, DatasetKind, MappingProfile } from '@/lib/columnMapping';
+
+// Define the store interface
+interface ColumnMappingStore {
+  profiles: MappingProfile[];
+  // Name of the profile applied to the next import of each dataset, null for the alias registry only
+  activeProfile: Record<DatasetKind, string | null>;
+  // Raw headers seen in the most recent file of each dataset (not persisted)
+  detectedHeaders: Record<DatasetKind, string[]>;
+  saveProfile: (profile: MappingProfile) => void;
+  deleteProfile: (kind: DatasetKind, name: string) => void;
+  importProfiles: (profiles: MappingProfile[]) => void;
+  setActiveProfile: (kind: DatasetKind, name: string | null) => void;
+  setDetectedHeaders: (kind: DatasetKind, headers: string[]) => void;
+  getActiveMapping: (kind: DatasetKind) => ColumnMapping | null;
+}
+
+// Replaces a profile with the same kind and name, or adds it
+const upsertProfile = (profiles: MappingProfile[], profile: MappingProfile): MappingProfile[] => [
+  ...profiles.filter(p => p.kind !== profile.kind || p.name !== profile.name),
+  profile,
+];
+
+// Create the store, persisting profiles to local storage
+export const useColumnMappingStore = create<ColumnMappingStore>()(
+  persist(
+    (set, get) => ({
+      profiles: [],
+      activeProfile: { ship: null, receiver: null },
+      detectedHeaders: { ship: [], receiver: [] },
+      saveProfile: (profile) => set((state) => ({
+        profiles: upsertProfile(state.profiles, profile),
+        activeProfile: { ...state.activeProfile, [profile.kind]: profile.name },
+      })),
+      deleteProfile: (kind, name) => set((state) => ({
+        profiles: state.profiles.filter(p => p.kind !== kind || p.name !== name),
+        activeProfile: state.activeProfile[kind] === name
+          ? { ...state.activeProfile, [kind]: null }
+          : state.activeProfile,
+      })),
+      importProfiles: (profiles) => set((state) => ({
+        profiles: profiles.reduce(upsertProfile, state.profiles),
+      })),
+      setActiveProfile: (kind, name) => set((state) => ({
+        activeProfile: { ...state.activeProfile, [kind]: name },
+      })),
+      setDetectedHeaders: (kind, headers) => set((state) => ({
+        detectedHeaders: { ...state.detectedHeaders, [kind]: headers },
+      })),
+      getActiveMapping: (kind) => {
+        const { profiles, activeProfile } = get();
+        const name = activeProfile[kind];
+        return profiles.find(p => p.kind === kind && p.name === name)?.mapping ?? null;
+      },
+    }),
+    {
+      name: 'csemnva-column-mappings',
+      partialize: (state) => ({
+        profiles: state.profiles,
+        activeProfile: state.activeProfile,
+      }),
+    }
+  )
+);
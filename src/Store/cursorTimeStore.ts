@@ -0,0 +1,14 @@
+import { create } from 'zustand';
+
+// Time under the cursor in whichever panel is hovered, so every panel can mark the same instant
+interface CursorTimeStore {
+  time: number | null;      // Epoch ms, null when nothing is hovered
+  source: string | null;    // Panel that set the time, so it can skip its own updates
+  setCursorTime: (time: number | null, source: string) => void;
+}
+
+export const useCursorTimeStore = create<CursorTimeStore>((set) => ({
+  time: null,
+  source: null,
+  setCursorTime: (time, source) => set({ time, source }),
+}));
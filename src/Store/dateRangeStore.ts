@@ -1,17 +1,55 @@
 import { create } from 'zustand';
 
+// Start and end of a time segment in epoch ms
+export type TimeSegment = [number, number];
+
+// Oldest ranges are dropped beyond this many history entries
+const MAX_HISTORY = 50;
+
 // Define the store interface
 interface DateRangeStore {
   minDate: number | null;
   maxDate: number | null;
+  segments: TimeSegment[];   // Disjoint passes picked on the position plot, empty for a plain range
+  history: TimeSegment[];    // Ranges visited, oldest first, for stepping back and forward
+  historyIndex: number;      // Position of the current range in the history, -1 when empty
   setDateRange: (min: number | null, max: number | null) => void;
+  setDateSegments: (segments: TimeSegment[]) => void;
   resetDateRange: () => void;
+  goBack: () => void;
+  goForward: () => void;
 }
 
+// Moves to a new range, dropping any forward history like a browser does
+const visit = (state: DateRangeStore, min: number | null, max: number | null): Partial<DateRangeStore> => {
+  if (min === null || max === null) return { minDate: min, maxDate: max };
+  if (min === state.minDate && max === state.maxDate) return {};
+
+  const history = [...state.history.slice(0, state.historyIndex + 1), [min, max] as TimeSegment].slice(-MAX_HISTORY);
+  return { minDate: min, maxDate: max, history, historyIndex: history.length - 1 };
+};
+
 // Create the store
 export const useDateRangeStore = create<DateRangeStore>((set) => ({
   minDate: null,
   maxDate: null,
-  setDateRange: (min, max) => set({ minDate: min, maxDate: max }),
-  resetDateRange: () => set({ minDate: null, maxDate: null }),
-})); 
\ No newline at end of file
+  segments: [],
+  history: [],
+  historyIndex: -1,
+  setDateRange: (min, max) => set((state) => visit(state, min, max)),
+  // The date range spans all segments; the segments stay available to step through one at a time
+  setDateSegments: (segments) => set((state) => segments.length
+    ? { segments, ...visit(state, segments[0][0], segments[segments.length - 1][1]) }
+    : { segments }),
+  resetDateRange: () => set({ minDate: null, maxDate: null, segments: [], history: [], historyIndex: -1 }),
+  goBack: () => set((state) => {
+    if (state.historyIndex <= 0) return {};
+    const [minDate, maxDate] = state.history[state.historyIndex - 1];
+    return { minDate, maxDate, historyIndex: state.historyIndex - 1 };
+  }),
+  goForward: () => set((state) => {
+    if (state.historyIndex >= state.history.length - 1) return {};
+    const [minDate, maxDate] = state.history[state.historyIndex + 1];
+    return { minDate, maxDate, historyIndex: state.historyIndex + 1 };
+  }),
+}));
@@ -0,0 +1,57 @@
+import { create } from 'zustand';
+import { DatasetKind } from '@/lib/columnMapping';
+import { ParseProgress } from '@/lib/csvIngest';
+
+export type ImportState = 'running' | 'done' | 'error' | 'cancelled';
+
+export interface ImportTask {
+  label: string;             // File name or URL being imported
+  state: ImportState;
+  progress: ParseProgress;
+  error: string | null;
+}
+
+// Define the store interface
+interface ImportStore {
+  tasks: Record<DatasetKind, ImportTask | null>;
+  startTask: (kind: DatasetKind, label: string) => AbortSignal;
+  updateProgress: (kind: DatasetKind, progress: ParseProgress) => void;
+  finishTask: (kind: DatasetKind, signal: AbortSignal, state: Exclude<ImportState, 'running'>, error?: string) => void;
+  cancelTask: (kind: DatasetKind) => void;
+}
+
+// Abort controllers of running imports, kept outside the state since they are not data
+const controllers: Partial<Record<DatasetKind, AbortController>> = {};
+
+const EMPTY_PROGRESS: ParseProgress = { rows: 0, bytes: 0, totalBytes: 0, etaMs: null };
+
+// Create the store
+export const useImportStore = create<ImportStore>((set) => ({
+  tasks: { ship: null, receiver: null },
+  startTask: (kind, label) => {
+    // Only one import per dataset at a time
+    controllers[kind]?.abort();
+    const controller = new AbortController();
+    controllers[kind] = controller;
+
+    set((state) => ({
+      tasks: { ...state.tasks, [kind]: { label, state: 'running', progress: EMPTY_PROGRESS, error: null } },
+    }));
+    return controller.signal;
+  },
+  updateProgress: (kind, progress) => set((state) => {
+    const task = state.tasks[kind];
+    if (!task || task.state !== 'running') return state;
+    return { tasks: { ...state.tasks, [kind]: { ...task, progress } } };
+  }),
+  finishTask: (kind, signal, taskState, error) => set((state) => {
+    const task = state.tasks[kind];
+    // Ignore imports that were superseded by a newer one
+    if (!task || controllers[kind]?.signal !== signal) return state;
+    delete controllers[kind];
+    return { tasks: { ...state.tasks, [kind]: { ...task, state: taskState, error: error ?? null } } };
+  }),
+  cancelTask: (kind) => {
+    controllers[kind]?.abort();
+  },
+}));
@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { NavigationSettings, SpeedUnit } from '@/lib/navigation';
+import { LaybackModel } from '@/lib/layback';
+import { DEFAULT_LBL_SETTINGS, LblSettings } from '@/lib/lbl';
+import { AntennaSettings, DEFAULT_ANTENNA_SETTINGS } from '@/lib/antenna';
+
+// Define the store interface
+interface NavigationSettingsStore extends NavigationSettings {
+  speedUnit: SpeedUnit;
+  setSmoothingWindow: (seconds: number) => void;
+  setSpeedUnit: (unit: SpeedUnit) => void;
+  setUtmZone: (zone: number | null) => void;
+  setLaybackModel: (model: LaybackModel) => void;
+  setLaybackRatio: (ratio: number) => void;
+  setLblSettings: (settings: Partial<LblSettings>) => void;
+  setAntennaSettings: (settings: Partial<AntennaSettings>) => void;
+}
+
+// Create the store, persisting settings to local storage
+export const useNavigationSettingsStore = create<NavigationSettingsStore>()(
+  persist(
+    (set) => ({
+      smoothingWindowS: 30,
+      utmZone: null,
+      laybackModel: 'catenary',
+      laybackRatio: 0.7,
+      lbl: DEFAULT_LBL_SETTINGS,
+      antenna: DEFAULT_ANTENNA_SETTINGS,
+      speedUnit: 'knots',
+      setSmoothingWindow: (seconds) => set({ smoothingWindowS: Math.max(0, seconds) }),
+      setSpeedUnit: (unit) => set({ speedUnit: unit }),
+      setUtmZone: (zone) => set({ utmZone: zone }),
+      setLaybackModel: (model) => set({ laybackModel: model }),
+      setLaybackRatio: (ratio) => set({ laybackRatio: Math.min(1, Math.max(0, ratio)) }),
+      setLblSettings: (settings) => set((state) => ({ lbl: { ...state.lbl, ...settings } })),
+      setAntennaSettings: (settings) => set((state) => ({ antenna: { ...state.antenna, ...settings } })),
+    }),
+    {
+      name: 'csemnva-navigation-settings',
+    }
+  )
+);
@@ -0,0 +1,39 @@
+import { create } from 'zustand';
+import { useCursorTimeStore } from '@/Store/cursorTimeStore';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
+
+// Cursor store source of the playback, so panels can tell a replay from a hover
+export const PLAYBACK_SOURCE = 'playback';
+
+// Data seconds replayed per real second
+export const PLAYBACK_SPEEDS = [1, 10, 60, 300, 1000, 3600];
+
+// Replay of the tow through the active date range
+interface PlaybackStore {
+  playing: boolean;
+  speed: number;
+  time: number | null;      // Playhead in epoch ms, null before the first play
+  setPlaying: (playing: boolean) => void;
+  setSpeed: (speed: number) => void;
+  seek: (time: number | null) => void;
+}
+
+export const usePlaybackStore = create<PlaybackStore>((set) => ({
+  playing: false,
+  speed: 60,
+  time: null,
+  setPlaying: (playing) => set({ playing }),
+  setSpeed: (speed) => set({ speed }),
+  seek: (time) => set({ time }),
+}));
+
+// Every panel follows the playhead through the shared cursor time
+usePlaybackStore.subscribe((state, prevState) => {
+  if (state.time !== prevState.time) useCursorTimeStore.getState().setCursorTime(state.time, PLAYBACK_SOURCE);
+});
+
+// Stop and rewind when the date range moves, since playback stays within it
+useTimeWindowStore.subscribe(() => {
+  usePlaybackStore.setState({ playing: false });
+  usePlaybackStore.getState().seek(null);
+});
@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Define the store interface
+interface PlotSettingsStore {
+  // Visibility of each series, keyed by plot id and then by series key
+  seriesVisibility: Record<string, Record<string, boolean>>;
+  setSeriesVisible: (plot: string, series: string, visible: boolean) => void;
+  // Whether zooming a time-series chart sets the date range of every panel
+  zoomSetsRange: boolean;
+  setZoomSetsRange: (enabled: boolean) => void;
+  // Ids of the panels that are collapsed
+  hiddenPanels: string[];
+  setPanelVisible: (panel: string, visible: boolean) => void;
+}
+
+// Create the store, persisting settings to local storage so they survive reloads
+export const usePlotSettingsStore = create<PlotSettingsStore>()(
+  persist(
+    (set) => ({
+      seriesVisibility: {},
+      setSeriesVisible: (plot, series, visible) => set((state) => ({
+        seriesVisibility: {
+          ...state.seriesVisibility,
+          [plot]: { ...state.seriesVisibility[plot], [series]: visible },
+        },
+      })),
+      zoomSetsRange: false,
+      setZoomSetsRange: (enabled) => set({ zoomSetsRange: enabled }),
+      hiddenPanels: [],
+      setPanelVisible: (panel, visible) => set((state) => ({
+        hiddenPanels: visible
+          ? state.hiddenPanels.filter(id => id !== panel)
+          : [...state.hiddenPanels.filter(id => id !== panel), panel],
+      })),
+    }),
+    {
+      name: 'csemnva-plot-settings',
+    }
+  )
+);
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+
+// Visible area of the position plot, in degrees or in UTM metres depending on the mode
+export interface PlotExtent {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+// View options of the position plot, kept outside the component so they can be shared in a link
+interface PositionViewStore {
+  metric: boolean;                   // UTM metres at 1:1 instead of degrees
+  useQuadtree: boolean;              // Hover detection of individual points
+  extent: PlotExtent | null;         // Current zoom, null before the plot is drawn
+  pendingExtent: PlotExtent | null;  // Zoom to apply when the plot is next drawn, e.g. from a link
+  setMetric: (metric: boolean) => void;
+  setUseQuadtree: (useQuadtree: boolean) => void;
+  setExtent: (extent: PlotExtent | null) => void;
+  setPendingExtent: (extent: PlotExtent | null) => void;
+}
+
+export const usePositionViewStore = create<PositionViewStore>((set) => ({
+  metric: false,
+  useQuadtree: false,
+  extent: null,
+  pendingExtent: null,
+  // The extent is in the units of the mode, so it no longer applies once the mode changes
+  setMetric: (metric) => set({ metric, extent: null, pendingExtent: null }),
+  setUseQuadtree: (useQuadtree) => set({ useQuadtree }),
+  setExtent: (extent) => set({ extent }),
+  setPendingExtent: (extent) => set({ pendingExtent: extent }),
+}));
@@ -0,0 +1,17 @@
+import { create } from 'zustand';
+import { ProfileLine } from '@/lib/geo.utils';
+
+// Define the store interface
+interface ProfileStore {
+  // Profile line starting at the trench; null means "derive from receivers"
+  line: ProfileLine | null;
+  setLine: (line: ProfileLine | null) => void;
+  resetLine: () => void;
+}
+
+// Create the store
+export const useProfileStore = create<ProfileStore>((set) => ({
+  line: null,
+  setLine: (line) => set({ line }),
+  resetLine: () => set({ line: null }),
+}));
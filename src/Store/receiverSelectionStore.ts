@@ -0,0 +1,18 @@
+import { create } from 'zustand';
+import { useReceiverStore } from '@/Store/shipStore';
+
+// Receiver picked in the receiver table, as an index into the receiver store data
+interface ReceiverSelectionStore {
+  selectedIndex: number | null;
+  setSelectedIndex: (index: number | null) => void;
+}
+
+export const useReceiverSelectionStore = create<ReceiverSelectionStore>((set) => ({
+  selectedIndex: null,
+  setSelectedIndex: (index) => set({ selectedIndex: index }),
+}));
+
+// Clear the selection when the receivers are reloaded, since the indices no longer match
+useReceiverStore.subscribe((state, prevState) => {
+  if (state.data !== prevState.data) useReceiverSelectionStore.setState({ selectedIndex: null });
+});
@@ -1,6 +1,17 @@
 import { create } from 'zustand';
-import Papa from 'papaparse';
+import { DatasetKind } from '@/lib/columnMapping';
+import { CsvResultData, CsvSource } from '@/lib/csvIngest';
+import { ShipColumns, createEmptyColumns, concatColumns } from '@/lib/shipColumns';
+import { parseCsvInWorker } from '@/lib/csvWorkerClient';
+import { DerivedChannels, NavigationSettings, NAVIGATION_SETTING_KEYS, pickNavigationSettings } from '@/lib/navigation';
+import { deriveChannelsInWorker } from '@/lib/navigationWorkerClient';
+import { useColumnMappingStore } from '@/Store/columnMappingStore';
+import { useImportStore } from '@/Store/importStore';
+import { useNavigationSettingsStore } from '@/Store/navigationSettingsStore';
 
+export type { ShipColumns, ShipChannel } from '@/lib/shipColumns';
+
+// Row of a ship navigation CSV, as parsed before being stored in columns
 export interface ShipData {
   datetime?: string;
   latitude?: number;
@@ -20,6 +31,12 @@ export interface ShipData {
   atetTiltX?: number;
   atetTiltY?: number;
   atetHeading?: number;
+  twttPort?: number;
+  twttStarboard?: number;
+  rangePort?: number;
+  rangeStarboard?: number;
+  twttReceiver?: number;
+  rangeReceiver?: number;
   // time column will be ignored
 }
 
@@ -28,182 +45,225 @@ export interface ReceiverData {
   longitude?: number;
   depth?: number;
   depthDeployed?: number;
+  latitudeDeployed?: number;   // Drop point, where the receiver was released
+  longitudeDeployed?: number;
   northing?: number;
   easting?: number;
   siteName?: string;
 }
 
+export type LoadMode = 'replace' | 'append';
+
+export interface LoadOptions {
+  mode?: LoadMode;  // Replace the current data or append to it (default: replace)
+}
+
 interface ShipStore {
-  data: ShipData[];
-  loadData: () => Promise<void>;
+  columns: ShipColumns;
+  source: string | null;  // Dataset loaded by name (file in public/data or URL); null for local, pasted or appended data
+  deriving: boolean;      // Derived channels are being recomputed in the navigation worker
+  loadData: (source?: string) => Promise<void>;
+  loadFromText: (csvText: string, options?: LoadOptions) => Promise<void>;
+  loadFromFile: (file: File, options?: LoadOptions) => Promise<void>;
 }
 
 interface ReceiverStore {
   data: ReceiverData[];
-  loadData: () => Promise<void>;
+  source: string | null;  // Dataset loaded by name, as for the ship store
+  loadData: (source?: string) => Promise<void>;
+  loadFromText: (csvText: string, options?: LoadOptions) => Promise<void>;
+  loadFromFile: (file: File, options?: LoadOptions) => Promise<void>;
+}
+
+/**
+ * Parses a CSV source in a Web Worker, tracking it as an import task
+ * Headers are resolved with the active column mapping profile, falling back to the alias registry,
+ * and the raw headers are reported to the mapping UI once parsing is done.
+ *
+ * @param kind Dataset the CSV contains
+ * @param label File name or URL shown in the import status
+ * @param source CSV source passed to the worker
+ * @returns Ship columns or receiver rows
+ * @throws AbortError when the import is cancelled, or the parsing error
+ */
+const runImport = async <K extends DatasetKind>(kind: K, label: string, source: CsvSource): Promise<CsvResultData[K]> => {
+  const signal = useImportStore.getState().startTask(kind, label);
+  const mapping = useColumnMappingStore.getState().getActiveMapping(kind);
+
+  try {
+    const { data, headers } = await parseCsvInWorker(kind, source, mapping, {
+      signal,
+      onProgress: (progress) => {
+        if (!signal.aborted) useImportStore.getState().updateProgress(kind, progress);
+      },
+    });
+
+    useColumnMappingStore.getState().setDetectedHeaders(kind, headers);
+    useImportStore.getState().finishTask(kind, signal, 'done');
+    return data;
+  } catch (error) {
+    const isCancelled = error instanceof DOMException && error.name === 'AbortError';
+    useImportStore.getState().finishTask(
+      kind,
+      signal,
+      isCancelled ? 'cancelled' : 'error',
+      isCancelled ? undefined : (error instanceof Error ? error.message : String(error))
+    );
+    throw error;
+  }
+};
+
+// Resolves a file in public/ to an absolute URL the worker can fetch
+const publicUrl = (path: string): string =>
+  new URL(`${import.meta.env.BASE_URL}${path}`, window.location.href).href;
+
+// Resolves a dataset identifier: a full URL, or a file name in public/data
+const datasetUrl = (source: string): string =>
+  /^[a-z][a-z0-9+.-]*:\/\//i.test(source) ? source : publicUrl(`data/${source}`);
+
+// Derived channels already computed for the current ship columns, by navigation settings,
+// so switching back to earlier settings does not recompute them
+const DERIVED_CACHE_SIZE = 4;
+let derivedCache: { time: Float64Array; entries: Map<string, DerivedChannels> } = { time: new Float64Array(0), entries: new Map() };
+let deriveController: AbortController | null = null;
+
+/**
+ * Computes the derived channels of the stored ship columns in the navigation worker
+ * A newer call supersedes a running one, and the result is dropped if other columns were loaded meanwhile.
+ */
+async function updateDerivedChannels(settings: NavigationSettings) {
+  const { columns } = useShipStore.getState();
+  deriveController?.abort();
+  deriveController = null;
+  if (columns.length === 0) {
+    useShipStore.setState({ deriving: false });
+    return;
+  }
+
+  if (derivedCache.time !== columns.time) {
+    derivedCache = { time: columns.time, entries: new Map() };
+  }
+  const cache = derivedCache;
+  const key = JSON.stringify(pickNavigationSettings(settings));
+  let derived = cache.entries.get(key);
+
+  if (!derived) {
+    const controller = new AbortController();
+    deriveController = controller;
+    useShipStore.setState({ deriving: true });
+    try {
+      derived = await deriveChannelsInWorker(columns, pickNavigationSettings(settings), controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Error computing derived channels:", error);
+      deriveController = null;
+      useShipStore.setState({ deriving: false });
+      return;
+    }
+    if (controller.signal.aborted) return;
+    deriveController = null;
+
+    cache.entries.set(key, derived);
+    if (cache.entries.size > DERIVED_CACHE_SIZE) {
+      cache.entries.delete(cache.entries.keys().next().value as string);
+    }
+  }
+
+  const current = useShipStore.getState().columns;
+  if (current.time !== columns.time) return;
+  useShipStore.setState({
+    columns: { ...current, channels: { ...current.channels, ...derived } },
+    deriving: false,
+  });
+}
+
+// Replaces or appends processed ship columns in the store, then derives their channels in the background
+// Only data loaded by name as a whole can be loaded again from its source, e.g. from a shared link.
+function setShipColumns(
+  set: (fn: (state: ShipStore) => Partial<ShipStore>) => void,
+  columns: ShipColumns,
+  mode: LoadMode = 'replace',
+  source: string | null = null
+) {
+  console.log(`Processed ${columns.length} valid data points`);
+
+  set((state) => ({
+    columns: mode === 'append' ? concatColumns(state.columns, columns) : columns,
+    source: mode === 'append' ? null : source,
+  }));
+  updateDerivedChannels(useNavigationSettingsStore.getState());
 }
 
 export const useShipStore = create<ShipStore>((set) => ({
-  data: [],
-  loadData: async () => {
+  columns: createEmptyColumns(),
+  source: null,
+  deriving: false,
+  loadData: async (source = 'ship_data_demo.csv') => {
     try {
-      console.log("Loading ship data...");
-      const response = await fetch(`${import.meta.env.BASE_URL}data/ship_data_demo.csv`);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch data: ${response.status} ${response.statusText}`);
-      }
-      
-      const csvText = await response.text();
-      
-      console.log(`CSV data loaded, size: ${csvText.length} bytes`);
-      
-      const results = Papa.parse<ShipData>(csvText, {
-        header: true,
-        skipEmptyLines: true,
-        dynamicTyping: true,
-        transformHeader: (header) => {
-          // Convert header to lowercase and trim whitespace
-          header = header.trim().toLowerCase();
-          // Handle specific transformations for snake_case to camelCase
-          if (header === 'suesidepth') return 'suesiDepth';
-          if (header === 'suesialt' 
-            || header === 'altitude'
-            || header === 'alt'
-            || header === 'suesialtitude'
-            ) return 'suesiAltitude';
-          if (header === 'heading'
-            || header === 'heading_deg'
-            || header === 'ship_heading'
-            || header === 'shipheading'
-            ) return 'shipHeading';
-          if (header === 'heading_deg_vulcan'
-            || header === 'vulcan_heading'
-            || header === 'vulcanheading'
-            ) return 'vulcanHeading';
-          if (header === 'tilt_x_vulcan'
-            || header === 'vulcan_tilt_x'
-            || header === 'vulcantiltx'
-            ) return 'vulcanTiltX';
-          if (header === 'tilt_y_vulcan'
-            || header === 'vulcan_tilt_y'
-            || header === 'vulcantilty'
-            ) return 'vulcanTiltY';
-          if (header === 'depth_vulcan'
-            || header === 'vulcan_depth'
-            || header === 'vulcandepth'
-            ) return 'vulcanDepth';
-          if (header === 'tilt_x_atet'
-            || header === 'atet_tilt_x'
-            || header === 'atettiltx'
-            ) return 'atetTiltX';
-          if (header === 'tilt_y_atet'
-            || header === 'atet_tilt_y'
-            || header === 'atettilty'
-            ) return 'atetTiltY';
-          if (header === 'heading_atet'
-            || header === 'atet_heading'
-            || header === 'atetheading'
-            ) return 'atetHeading';
-          if (header === 'depth_atet'
-            || header === 'atet_depth'
-            || header === 'atetdepth'
-            ) return 'atetDepth';
-          return header;
-        },
-      });
-
-      console.log(`Parsed ${results.data.length} rows with ${results.meta.fields?.length} fields`);
-      console.log("Fields:", results.meta.fields);
-      
-      if (results.errors && results.errors.length > 0) {
-        console.warn("CSV parsing errors:", results.errors);
-      }
-
-      // Process the data, using only the datetime column and depth values
-      const shipData: ShipData[] = results.data
-        .map((row) => ({
-          datetime: row.datetime,
-          latitude: typeof row.latitude === 'number' ? row.latitude : undefined,
-          longitude: typeof row.longitude === 'number' ? row.longitude : undefined,
-          suesiAltitude: typeof row.suesiAltitude === 'number' ? row.suesiAltitude : undefined,
-          winch: typeof row.winch === 'number' ? row.winch : undefined,
-          suesiDepth: typeof row.suesiDepth === 'number' ? row.suesiDepth : undefined,
-          bathy: typeof row.bathy === 'number' ? row.bathy : undefined,
-          shipHeading: typeof row.shipHeading === 'number' ? row.shipHeading : undefined,
-          vulcanHeading: typeof row.vulcanHeading === 'number' ? row.vulcanHeading : undefined,
-          vulcanTiltX: typeof row.vulcanTiltX === 'number' ? row.vulcanTiltX : undefined,
-          vulcanTiltY: typeof row.vulcanTiltY === 'number' ? row.vulcanTiltY : undefined,
-          vulcanDepth: typeof row.vulcanDepth === 'number' ? row.vulcanDepth : undefined,
-          atetDepth: typeof row.atetDepth === 'number' ? row.atetDepth : undefined,
-          atetTiltX: typeof row.atetTiltX === 'number' ? row.atetTiltX : undefined,
-          atetTiltY: typeof row.atetTiltY === 'number' ? row.atetTiltY : undefined,
-          atetHeading: typeof row.atetHeading === 'number' ? row.atetHeading : undefined,
-        }));
-
-      console.log(`Processed ${shipData.length} valid data points`);
-      
-      // Display sample data for debugging
-      if (shipData.length > 0) {
-        console.log("Sample data point:", shipData[1]);
-      }
-
-      set({ data: shipData });
+      console.log(`Loading ship data from ${source}...`);
+      const columns = await runImport('ship', source, { url: datasetUrl(source) });
+      setShipColumns(set, columns, 'replace', source);
     } catch (error) {
       console.error("Error loading ship data:", error);
-      set({ data: [] });
+      set({ columns: createEmptyColumns(), source: null });
+      updateDerivedChannels(useNavigationSettingsStore.getState());
     }
   },
+  loadFromText: async (csvText, options = {}) => {
+    const columns = await runImport('ship', 'pasted text', { text: csvText });
+    setShipColumns(set, columns, options.mode);
+  },
+  loadFromFile: async (file, options = {}) => {
+    const columns = await runImport('ship', file.name, { file });
+    setShipColumns(set, columns, options.mode);
+  },
 }));
 
+// Recompute the derived channels when the settings they depend on change
+useNavigationSettingsStore.subscribe((state, prevState) => {
+  if (NAVIGATION_SETTING_KEYS.every(key => state[key] === prevState[key])) return;
+
+  updateDerivedChannels(state);
+});
+
+// Replaces or appends processed receiver data in the store
+function setReceiverData(
+  set: (fn: (state: ReceiverStore) => Partial<ReceiverStore>) => void,
+  receiverData: ReceiverData[],
+  mode: LoadMode = 'replace',
+  source: string | null = null
+) {
+  console.log(`Processed ${receiverData.length} valid data points`);
+
+  if (receiverData.length > 0) {
+    console.log("Sample data point:", receiverData[0]);
+  }
+
+  set((state) => ({
+    data: mode === 'append' ? state.data.concat(receiverData) : receiverData,
+    source: mode === 'append' ? null : source,
+  }));
+}
+
 export const useReceiverStore = create<ReceiverStore>((set) => ({
   data: [],
-  loadData: async () => {
+  source: null,
+  loadData: async (source = 'Rx_forearc.csv') => {
     try {
-      console.log("Loading receiver data...");
-      const response = await fetch(`${import.meta.env.BASE_URL}data/Rx_forearc.csv`);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch data: ${response.status} ${response.statusText}`);
-      }
-
-      const csvText = await response.text();
-      console.log(`CSV data loaded, size: ${csvText.length} bytes`);
-
-      const results = Papa.parse<ReceiverData>(csvText, {
-        header: true,
-        skipEmptyLines: true,
-        dynamicTyping: true,
-        transformHeader: (header) => header.trim().toLowerCase(),
-      });
-
-      console.log(`Parsed ${results.data.length} rows with ${results.meta.fields?.length} fields`);
-      console.log("Fields:", results.meta.fields);
-
-      if (results.errors && results.errors.length > 0) {
-        console.warn("CSV parsing errors:", results.errors);
-      }
-
-      const receiverData: ReceiverData[] = results.data.map((row) => ({
-        latitude: typeof row.latitude === 'number' ? row.latitude : undefined,
-        longitude: typeof row.longitude === 'number' ? row.longitude : undefined,
-        depth: typeof row.depth === 'number' ? row.depth : undefined,
-        depthDeployed: typeof row.depthDeployed === 'number' ? row.depthDeployed : undefined,
-        northing: typeof row.northing === 'number' ? row.northing : undefined,
-        easting: typeof row.easting === 'number' ? row.easting : undefined,
-        siteName: typeof row.siteName === 'string' ? row.siteName : undefined,
-      }));
-
-      console.log(`Processed ${receiverData.length} valid data points`);
-
-      if (receiverData.length > 0) {
-        console.log("Sample data point:", receiverData[0]);
-      }
-
-      set({ data: receiverData });
+      console.log(`Loading receiver data from ${source}...`);
+      const rows = await runImport('receiver', source, { url: datasetUrl(source) });
+      setReceiverData(set, rows, 'replace', source);
     } catch (error) {
       console.error("Error loading receiver data:", error);
-      set({ data: [] });
+      set({ data: [], source: null });
     }
   },
+  loadFromText: async (csvText, options = {}) => {
+    const rows = await runImport('receiver', 'pasted text', { text: csvText });
+    setReceiverData(set, rows, options.mode);
+  },
+  loadFromFile: async (file, options = {}) => {
+    const rows = await runImport('receiver', file.name, { file });
+    setReceiverData(set, rows, options.mode);
+  },
 }));
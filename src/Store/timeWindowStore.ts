@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+import { useShipStore } from '@/Store/shipStore';
+import { useDateRangeStore } from '@/Store/dateRangeStore';
+import { findTimeWindow } from '@/lib/UPlot.utils';
+
+// Rows of the ship columns that fall within the active date range, as [startIdx, endIdx)
+interface TimeWindowStore {
+  startIdx: number;
+  endIdx: number;
+}
+
+export const useTimeWindowStore = create<TimeWindowStore>(() => ({
+  startIdx: 0,
+  endIdx: 0,
+}));
+
+/**
+ * Recomputes the time window from the ship time index and the date range
+ * Runs once per change of either store, so every plot shares the same slice.
+ */
+const updateTimeWindow = () => {
+  const { time } = useShipStore.getState().columns;
+  const { minDate, maxDate } = useDateRangeStore.getState();
+  const [startIdx, endIdx] = findTimeWindow(time, minDate, maxDate);
+
+  const current = useTimeWindowStore.getState();
+  if (current.startIdx !== startIdx || current.endIdx !== endIdx) {
+    useTimeWindowStore.setState({ startIdx, endIdx });
+  }
+};
+
+useShipStore.subscribe((state, prevState) => {
+  if (state.columns !== prevState.columns) updateTimeWindow();
+});
+useDateRangeStore.subscribe(updateTimeWindow);
+updateTimeWindow();
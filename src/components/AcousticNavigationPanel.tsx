@@ -0,0 +1,107 @@
+/**
+ * AcousticNavigationPanel Component
+ *
+ * Settings and quality channels of the inverted long-baseline (Barracuda) navigation,
+ * which solves the transmitter position from the port and starboard travel times.
+ *
+ * The component handles:
+ * - Editing the sound speed, turn-around delay and transducer offsets
+ * - Plotting the position uncertainties and range misfits of each fix
+ */
+import React, { useState } from 'react';
+import { ShipChannel, useShipStore } from '@/Store/shipStore';
+import { useNavigationSettingsStore } from '@/Store/navigationSettingsStore';
+import { ShipOffset } from '@/lib/lbl';
+import { TimeSeriesPlot } from '@/components/timeSeriesPlot';
+import NumberSetting from '@/components/NumberSetting';
+
+// Quality channels of the solution that can be plotted; misfits are a consistency check (see solveLblFix)
+const LBL_CHANNELS: { key: ShipChannel; label: string; color: string; misfit?: boolean }[] = [
+  { key: 'lblSigmaEasting', label: 'Easting Uncertainty 1σ (m)', color: 'blue' },
+  { key: 'lblSigmaNorthing', label: 'Northing Uncertainty 1σ (m)', color: 'purple' },
+  { key: 'lblResidualPort', label: 'Port Range Misfit (m)', color: 'red', misfit: true },
+  { key: 'lblResidualStarboard', label: 'Starboard Range Misfit (m)', color: 'green', misfit: true },
+];
+
+const OFFSET_AXES: { key: keyof ShipOffset; label: string }[] = [
+  { key: 'forward', label: 'fwd' },
+  { key: 'starboard', label: 'stbd' },
+  { key: 'down', label: 'down' },
+];
+
+const AcousticNavigationPanel: React.FC = () => {
+  const { columns } = useShipStore();
+  const { lbl, setLblSettings } = useNavigationSettingsStore();
+  const [channelKey, setChannelKey] = useState<ShipChannel>('lblSigmaEasting');
+
+  const channel = LBL_CHANNELS.find(c => c.key === channelKey) ?? LBL_CHANNELS[0];
+
+  // Number of rows with a solved fix
+  const fixCount = columns.channels.lblEasting.reduce((count, value) => isNaN(value) ? count : count + 1, 0);
+
+  const setOffset = (transducer: 'portOffset' | 'starboardOffset', axis: keyof ShipOffset, value: number) => {
+    setLblSettings({ [transducer]: { ...lbl[transducer], [axis]: value } });
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-wrap items-center gap-4 text-sm px-4">
+        <NumberSetting
+          label="Sound speed (m/s)"
+          value={lbl.soundSpeed}
+          min={1}
+          onApply={(soundSpeed) => setLblSettings({ soundSpeed })}
+        />
+        <NumberSetting
+          label="Turn-around (s)"
+          value={lbl.turnaroundS}
+          step={0.001}
+          min={0}
+          onApply={(turnaroundS) => setLblSettings({ turnaroundS })}
+        />
+        <span className="text-gray-600">{fixCount} fixes solved</span>
+      </div>
+      {(['portOffset', 'starboardOffset'] as const).map(transducer => (
+        <div key={transducer} className="flex flex-wrap items-center gap-4 text-sm px-4 mt-2">
+          <span className="w-32 font-medium">
+            {transducer === 'portOffset' ? 'Port transducer (m)' : 'Starboard transducer (m)'}
+          </span>
+          {OFFSET_AXES.map(axis => (
+            <NumberSetting
+              key={axis.key}
+              label={axis.label}
+              value={lbl[transducer][axis.key]}
+              step={0.1}
+              onApply={(value) => setOffset(transducer, axis.key, value)}
+            />
+          ))}
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center gap-4 text-sm px-4 mt-2">
+        <select
+          value={channelKey}
+          onChange={(e) => setChannelKey(e.target.value as ShipChannel)}
+          className="px-2 py-1 rounded border border-gray-300"
+        >
+          {LBL_CHANNELS.map(c => (
+            <option key={c.key} value={c.key}>{c.label}</option>
+          ))}
+        </select>
+        {channel.misfit && (
+          <span className="text-gray-600">
+            No redundant ranges: zero where the ranges meet at the logged depth, non-zero only
+            when ranges, sound speed or depth are inconsistent. Not a measure of fix accuracy.
+          </span>
+        )}
+      </div>
+      <TimeSeriesPlot
+        dataColumn={channel.key}
+        title=""
+        color={channel.color}
+        seriesLabel={channel.label}
+      />
+    </div>
+  );
+};
+
+export default AcousticNavigationPanel;
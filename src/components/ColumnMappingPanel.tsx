@@ -0,0 +1,223 @@
+/**
+ * ColumnMappingPanel Component
+ *
+ * Shows the headers detected in the last imported (or previewed) CSV file and
+ * lets users assign each of them to a ShipData/ReceiverData field.
+ * Mappings are saved as named profiles (per logger or cruise) in local storage
+ * and can be exported to and imported from JSON files.
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Papa from 'papaparse';
+import { useColumnMappingStore } from '@/Store/columnMappingStore';
+import {
+  ColumnMapping,
+  DatasetKind,
+  FIELD_ALIASES,
+  detectMapping,
+  parseMappingProfiles,
+} from '@/lib/columnMapping';
+
+// Reads only the header row of a CSV file
+const readHeaders = (file: File): Promise<string[]> => new Promise((resolve, reject) => {
+  Papa.parse<string[]>(file, {
+    preview: 1,
+    complete: (results) => resolve((results.data[0] ?? []).map(h => String(h).trim())),
+    error: (error) => reject(error),
+  });
+});
+
+const ColumnMappingPanel: React.FC = () => {
+  const {
+    profiles,
+    activeProfile,
+    detectedHeaders,
+    saveProfile,
+    deleteProfile,
+    importProfiles,
+    setActiveProfile,
+    setDetectedHeaders,
+  } = useColumnMappingStore();
+  const [kind, setKind] = useState<DatasetKind>('ship');
+  const [draft, setDraft] = useState<ColumnMapping>({});
+  const [profileName, setProfileName] = useState<string>('');
+  const [message, setMessage] = useState<string | null>(null);
+  const previewInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const kindProfiles = useMemo(() => profiles.filter(p => p.kind === kind), [profiles, kind]);
+  const activeName = activeProfile[kind];
+  const headers = detectedHeaders[kind];
+  const fields = Object.keys(FIELD_ALIASES[kind]);
+
+  // Start the draft from the alias registry, overridden by the active profile
+  useEffect(() => {
+    const active = kindProfiles.find(p => p.name === activeName);
+    setDraft({ ...detectMapping(headers, kind), ...(active?.mapping ?? {}) });
+    setProfileName(active?.name ?? '');
+  }, [headers, kind, kindProfiles, activeName]);
+
+  const handlePreviewFile = async (file: File) => {
+    try {
+      setDetectedHeaders(kind, await readHeaders(file));
+      setMessage(`Detected headers from ${file.name}`);
+    } catch (error) {
+      setMessage(`Error reading ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleSave = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    saveProfile({ name, kind, mapping: draft });
+    setMessage(`Saved profile "${name}". It applies to the next ${kind} import.`);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(profiles, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'column-mapping-profiles.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseMappingProfiles(await file.text());
+      importProfiles(imported);
+      setMessage(`Imported ${imported.length} profile(s) from ${file.name}`);
+    } catch (error) {
+      setMessage(`Error importing ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="w-full p-6 rounded-lg shadow-md text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="font-bold text-lg text-gray-800">Column Mapping</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as DatasetKind)}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="ship">Ship Navigation</option>
+            <option value="receiver">Receivers</option>
+          </select>
+          <select
+            value={activeName ?? ''}
+            onChange={(e) => setActiveProfile(kind, e.target.value || null)}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="">Automatic (alias registry)</option>
+            {kindProfiles.map(p => (
+              <option key={p.name} value={p.name}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {headers.length === 0 ? (
+        <p className="text-gray-600 mb-4">No headers detected yet. Import a file or preview its headers.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto mb-4 border border-gray-200 rounded">
+          <table className="w-full">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="text-left px-2 py-1">CSV Header</th>
+                <th className="text-left px-2 py-1">Field</th>
+              </tr>
+            </thead>
+            <tbody>
+              {headers.map(header => (
+                <tr key={header} className="border-t border-gray-100">
+                  <td className="px-2 py-1 font-mono">{header}</td>
+                  <td className="px-2 py-1">
+                    <select
+                      value={draft[header] ?? ''}
+                      onChange={(e) => setDraft({ ...draft, [header]: e.target.value })}
+                      className={`px-2 py-0.5 rounded border ${draft[header] ? 'border-gray-300' : 'border-gray-200 text-gray-400'}`}
+                    >
+                      <option value="">(ignore)</option>
+                      {fields.map(field => (
+                        <option key={field} value={field}>{field}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          placeholder="Profile name (e.g. logger or cruise)"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          className="px-2 py-1 rounded border border-gray-300"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!profileName.trim() || headers.length === 0}
+          className="px-3 py-1.5 bg-blue-600 text-black rounded hover:bg-blue-700 text-sm font-medium transition-colors"
+        >
+          Save Profile
+        </button>
+        <button
+          onClick={() => activeName && deleteProfile(kind, activeName)}
+          disabled={!activeName}
+          className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors"
+        >
+          Delete
+        </button>
+        <button
+          onClick={() => previewInputRef.current?.click()}
+          className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors"
+        >
+          Preview Headers...
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={profiles.length === 0}
+          className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors"
+        >
+          Import JSON...
+        </button>
+        <input
+          ref={previewInputRef}
+          type="file"
+          accept=".csv,.txt,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.[0]) handlePreviewFile(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.[0]) handleImport(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {message && <p className="mt-2 text-gray-700">{message}</p>}
+    </div>
+  );
+};
+
+export default ColumnMappingPanel;
@@ -0,0 +1,329 @@
+/**
+ * CompassPlot Component
+ *
+ * Overlays the ship, Vulcan and ATET compass headings on one time axis.
+ *
+ * The component handles:
+ * - Breaking lines where a heading crosses north, or unwrapping headings into a continuous trace
+ * - An optional heading-difference trace (e.g. Vulcan minus ship) on its own axis
+ * - Per-series visibility toggles that are saved with the other plot settings
+ */
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import uPlot from 'uplot';
+import 'uplot/dist/uPlot.min.css';
+import { useShipStore, ShipChannel } from '@/Store/shipStore';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
+import { usePlotSettingsStore } from '@/Store/plotSettingsStore';
+import { wheelZoomPlugin } from '@/lib/uplot-wheel-zoom-plugin';
+import { lodPlugin, findVisibleWindow } from '@/lib/uplot-lod-plugin';
+import { cursorTimePlugin, TIME_SYNC_KEY } from '@/lib/uplot-cursor-time-plugin';
+import { rangeZoomPlugin } from '@/lib/uplot-range-zoom-plugin';
+import { paddedRange, formatTime, pickTimestamps, pickValues, decimateIndices, makeWrapGaps, DecimationStrategy } from '@/lib/UPlot.utils';
+import { headingDifference, unwrapHeadings } from '@/lib/heading.utils';
+import DecimationSelect from '@/components/DecimationSelect';
+import SeriesToggle from '@/components/SeriesToggle';
+
+const MAX_POINTS = 20000;
+const PLOT_ID = 'compass';
+
+// Compass headings, in chart order
+const HEADING_SERIES: { key: ShipChannel; label: string; color: string }[] = [
+  { key: 'shipHeading', label: 'Ship Heading (°)', color: 'blue' },
+  { key: 'vulcanHeading', label: 'Vulcan Heading (°)', color: 'purple' },
+  { key: 'atetHeading', label: 'ATET Heading (°)', color: 'orange' },
+];
+
+// Heading pairs that can be compared, as minuend and subtrahend
+const DIFFERENCE_PAIRS: { value: string; label: string; a: ShipChannel; b: ShipChannel }[] = [
+  { value: 'vulcan-ship', label: 'Vulcan − Ship', a: 'vulcanHeading', b: 'shipHeading' },
+  { value: 'atet-ship', label: 'ATET − Ship', a: 'atetHeading', b: 'shipHeading' },
+  { value: 'atet-vulcan', label: 'ATET − Vulcan', a: 'atetHeading', b: 'vulcanHeading' },
+];
+
+// How headings are drawn across north
+type WrapMode = 'break' | 'unwrap';
+
+// Saved visibility of a heading, shown by default
+const isSeriesVisible = (visibility: Record<string, boolean> | undefined, key: ShipChannel): boolean => {
+  return visibility?.[key] ?? true;
+};
+
+// Saved visibility read from the store, for chart hooks and callbacks that must not rebuild the chart
+const isSeriesVisibleNow = (key: ShipChannel): boolean => {
+  return isSeriesVisible(usePlotSettingsStore.getState().seriesVisibility[PLOT_ID], key);
+};
+
+const CompassPlot: React.FC = () => {
+  const { columns } = useShipStore();
+  const { startIdx, endIdx } = useTimeWindowStore();
+  const visibility = usePlotSettingsStore((state) => state.seriesVisibility[PLOT_ID]);
+  const setSeriesVisible = usePlotSettingsStore((state) => state.setSeriesVisible);
+  const plotRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<uPlot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [wrapMode, setWrapMode] = useState<WrapMode>('break');
+  const [differencePair, setDifferencePair] = useState<string>('');
+  const [strategy, setStrategy] = useState<DecimationStrategy>('minmax');
+
+  const difference = DIFFERENCE_PAIRS.find(pair => pair.value === differencePair) ?? null;
+
+  // Row indices within the date range (or a visible part of it) that have at least one heading
+  const getFilteredIndices = useCallback((from: number = startIdx, to: number = endIdx) => {
+    const channels = HEADING_SERIES.map(series => columns.channels[series.key]);
+
+    const indices: number[] = [];
+    for (let i = from; i < to; i++) {
+      if (channels.some(values => !isNaN(values[i]))) indices.push(i);
+    }
+    return decimateIndices(columns.time, channels, indices, MAX_POINTS, strategy);
+  }, [columns, startIdx, endIdx, strategy]);
+
+  // Chart data for the given rows: time, every heading and the optional difference trace
+  const buildChartData = useCallback((indices: number[]): uPlot.AlignedData => {
+    const headings = HEADING_SERIES.map(series => {
+      const values = pickValues(columns.channels[series.key], indices);
+      return wrapMode === 'unwrap' ? unwrapHeadings(values) : values;
+    });
+
+    const chartData: uPlot.AlignedData = [pickTimestamps(columns.time, indices), ...headings];
+
+    if (difference) {
+      const a = columns.channels[difference.a];
+      const b = columns.channels[difference.b];
+      chartData.push(indices.map(i =>
+        isNaN(a[i]) || isNaN(b[i]) ? null : headingDifference(a[i], b[i])
+      ));
+    }
+
+    return chartData;
+  }, [columns, wrapMode, difference]);
+
+  // Latest level-of-detail query, called by the LOD plugin when the chart is zoomed
+  const lodQueryRef = useRef<(min: number, max: number) => uPlot.AlignedData | null>(() => null);
+  useEffect(() => {
+    lodQueryRef.current = (min, max) => {
+      const [from, to] = findVisibleWindow(columns.time, startIdx, endIdx, min, max);
+      const indices = getFilteredIndices(from, to);
+      return indices.length ? buildChartData(indices) : null;
+    };
+  }, [columns, startIdx, endIdx, getFilteredIndices, buildChartData]);
+
+  // Apply visibility changes to the existing chart without rebuilding it
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+
+    HEADING_SERIES.forEach((series, i) => {
+      const show = isSeriesVisible(visibility, series.key);
+      if (chart.series[i + 1].show !== show) {
+        chart.setSeries(i + 1, { show });
+      }
+    });
+  }, [visibility]);
+
+  // Main effect to create the chart
+  useEffect(() => {
+    if (!plotRef.current || !columns.length) return;
+
+    try {
+      setError(null);
+
+      const filteredIndices = getFilteredIndices();
+
+      if (filteredIndices.length === 0) {
+        setError("No valid heading values found in the selected range");
+        return;
+      }
+
+      const chartData = buildChartData(filteredIndices);
+      const wrapGaps = wrapMode === 'break' ? makeWrapGaps(180) : undefined;
+
+      const series: uPlot.Series[] = [
+        {
+          label: "Time",
+          value: (_u, v) => formatTime(v*1000),
+        },
+        ...HEADING_SERIES.map(heading => ({
+          label: heading.label,
+          stroke: heading.color,
+          scale: 'deg',
+          show: isSeriesVisibleNow(heading.key),
+          gaps: wrapGaps,
+        })),
+      ];
+
+      if (difference) {
+        series.push({
+          label: `${difference.label} (°)`,
+          stroke: 'black',
+          dash: [6, 4],
+          scale: 'diff',
+          gaps: makeWrapGaps(180),
+        });
+      }
+
+      const opts: uPlot.Options = {
+        mode: 1,
+        title: "",
+        width: plotRef.current.clientWidth || window.innerWidth - 50,
+        height: 300,
+        plugins: [
+          wheelZoomPlugin({
+            factor: 0.9,
+            drag: true,
+            scroll: true,
+          }),
+          lodPlugin({ getData: (min, max) => lodQueryRef.current(min, max) }),
+          cursorTimePlugin(),
+          rangeZoomPlugin(),
+        ],
+        cursor: {
+          drag: { x: true, y: true, uni: 1, dist: 30 },
+          sync: {
+            key: TIME_SYNC_KEY,
+            scales: ["x", null],
+          }
+        },
+        hooks: {
+          // Keep the saved visibility in step with legend clicks
+          setSeries: [
+            (_u, seriesIdx, seriesOpts) => {
+              if (
+                seriesIdx && seriesIdx <= HEADING_SERIES.length && seriesOpts.show !== undefined &&
+                seriesOpts.show !== isSeriesVisibleNow(HEADING_SERIES[seriesIdx - 1].key)
+              ) {
+                usePlotSettingsStore.getState().setSeriesVisible(PLOT_ID, HEADING_SERIES[seriesIdx - 1].key, seriesOpts.show);
+              }
+            }
+          ]
+        },
+        series,
+        scales: {
+          x: {
+            time: true,
+          },
+          deg: {
+            // Headings stay on a fixed compass range unless they are unwrapped
+            range: wrapMode === 'break'
+              ? [0, 360]
+              : (u, min, max) => paddedRange(u, min, max, 0),
+          },
+          diff: {
+            range: [-180, 180],
+          },
+        },
+        axes: [
+          {values: [
+            // tick incr  default       year                        month   day                  hour   min               sec  mode
+            [3600*24*365,"{YYYY}",      null,                       null, null,                  null, null,              null, 1],
+            [3600*24*28, "{MMM}",       "\n{YYYY}",                 null, null,                  null, null,              null, 1],
+            [3600*24,    "{D}/{M}",     "\n{YYYY}",                 null, null,                  null, null,              null, 1],
+            [3600,       "{HH}",        "\n{D}/{M}/{YY}",           null, "\n{D}/{M}",           null, null,              null, 1],
+            [60,         "{HH}:{mm}",   "\n{D}/{M}/{YY}",           null, "\n{D}/{M}",           null, null,              null, 1],
+            [1,          ":{ss}",       "\n{D}/{M}/{YY} {HH}:{mm}", null, "\n{D}/{M} {HH}:{mm}", null, "\n{HH}:{mm}",     null, 1],
+            [0.001,      ":{ss}.{fff}", "\n{D}/{M}/{YY} {HH}:{mm}", null, "\n{D}/{M} {HH}:{mm}", null, "\n{HH}:{mm}",     null, 1],
+                      ]},
+          {
+            scale: 'deg',
+            label: "Heading (°)",
+            incrs: [15, 30, 45, 90, 180, 360],
+          },
+          {
+            scale: 'diff',
+            side: 1,
+            show: difference !== null,
+            label: "Difference (°)",
+            grid: { show: false },
+          },
+        ],
+        legend: {
+          show: true
+        }
+      };
+
+      // Clean up any existing chart content
+      if (plotRef.current.firstChild) {
+        plotRef.current.innerHTML = '';
+      }
+
+      chartRef.current = new uPlot(opts, chartData, plotRef.current);
+
+      // Make plot responsive
+      const resizeObserver = new ResizeObserver(() => {
+        if (plotRef.current && plotRef.current.clientWidth > 0 && chartRef.current) {
+          chartRef.current.setSize({
+            width: plotRef.current.clientWidth,
+            height: chartRef.current.height
+          });
+        }
+      });
+
+      resizeObserver.observe(plotRef.current);
+
+      return () => {
+        if (chartRef.current) {
+          chartRef.current.destroy();
+          chartRef.current = null;
+        }
+        resizeObserver.disconnect();
+      };
+    } catch (err) {
+      console.error("Error creating compass chart:", err);
+      setError(`Error creating chart: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [columns, startIdx, endIdx, getFilteredIndices, buildChartData, wrapMode, difference]);
+
+  return (
+    <div className="w-full p-4">
+      {columns.length === 0 ? (
+        <div className="text-center py-8">No data available</div>
+      ) : (
+        <>
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-4">
+              {HEADING_SERIES.map(series => (
+                <SeriesToggle
+                  key={series.key}
+                  label={series.label}
+                  checked={isSeriesVisible(visibility, series.key)}
+                  onChange={(checked) => setSeriesVisible(PLOT_ID, series.key, checked)}
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="inline-flex items-center gap-2">
+                North crossing
+                <select
+                  value={wrapMode}
+                  onChange={(e) => setWrapMode(e.target.value as WrapMode)}
+                  className="px-2 py-1 rounded border border-gray-300"
+                >
+                  <option value="break">Break lines</option>
+                  <option value="unwrap">Unwrap</option>
+                </select>
+              </label>
+              <label className="inline-flex items-center gap-2">
+                Difference
+                <select
+                  value={differencePair}
+                  onChange={(e) => setDifferencePair(e.target.value)}
+                  className="px-2 py-1 rounded border border-gray-300"
+                >
+                  <option value="">None</option>
+                  {DIFFERENCE_PAIRS.map(pair => (
+                    <option key={pair.value} value={pair.value}>{pair.label}</option>
+                  ))}
+                </select>
+              </label>
+              <DecimationSelect value={strategy} onChange={setStrategy} />
+            </div>
+          </div>
+          {error && <div className="text-center py-8 text-red-500">{error}</div>}
+          <div ref={plotRef} className={error ? 'hidden' : ''}></div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CompassPlot;
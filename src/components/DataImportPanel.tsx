@@ -0,0 +1,136 @@
+/**
+ * DataImportPanel Component
+ *
+ * Lets users load ship navigation and receiver CSV files from their own disk,
+ * by drag-and-drop or with a file picker, without rebuilding the app.
+ */
+import React, { useCallback, useRef, useState } from 'react';
+import { useShipStore, useReceiverStore, LoadMode } from '@/Store/shipStore';
+import { useDateRangeStore } from '@/Store/dateRangeStore';
+import { useImportStore } from '@/Store/importStore';
+import { DatasetKind } from '@/lib/columnMapping';
+import ImportStatusBar from '@/components/ImportStatusBar';
+
+interface DropZoneProps {
+  kind: DatasetKind;
+  label: string;
+  onFiles: (files: File[]) => void;
+}
+
+// Drop target with a fallback file picker and the import progress
+const DropZone: React.FC<DropZoneProps> = ({ kind, label, onFiles }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const isBusy = useImportStore((state) => state.tasks[kind]?.state === 'running');
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        if (!isBusy && e.dataTransfer.files.length) onFiles(Array.from(e.dataTransfer.files));
+      }}
+      className={`p-4 rounded border-2 border-dashed text-sm transition-colors ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-gray-800">{label}</span>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isBusy}
+          className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors"
+        >
+          Browse...
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.txt,text/csv"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.length) onFiles(Array.from(e.target.files));
+            // Allow picking the same file again
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <p className="text-gray-600 mb-2">Drop CSV files here</p>
+      <ImportStatusBar kinds={[kind]} />
+    </div>
+  );
+};
+
+const DataImportPanel: React.FC = () => {
+  const shipCount = useShipStore((state) => state.columns.length);
+  const loadShipFile = useShipStore((state) => state.loadFromFile);
+  const receiverCount = useReceiverStore((state) => state.data.length);
+  const loadReceiverFile = useReceiverStore((state) => state.loadFromFile);
+  const resetDateRange = useDateRangeStore((state) => state.resetDateRange);
+  const [mode, setMode] = useState<LoadMode>('replace');
+
+  // Load files one after another; files after the first are always appended
+  const importFiles = useCallback(async (kind: DatasetKind, files: File[]) => {
+    const loadFromFile = kind === 'ship' ? loadShipFile : loadReceiverFile;
+
+    for (let i = 0; i < files.length; i++) {
+      try {
+        await loadFromFile(files[i], { mode: i === 0 ? mode : 'append' });
+      } catch (error) {
+        // The failure or cancellation is shown in the import status
+        console.error(`Error loading ${kind} file:`, error);
+        return;
+      }
+    }
+
+    // New ship data changes the time extent, so let the slider start from the full range
+    if (kind === 'ship') resetDateRange();
+  }, [mode, loadShipFile, loadReceiverFile, resetDateRange]);
+
+  return (
+    <div className="w-full p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-lg text-gray-800">Data Import</h3>
+        <div className="flex items-center gap-4 text-sm">
+          <label className="inline-flex items-center gap-1 cursor-pointer">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={mode === 'replace'}
+              onChange={() => setMode('replace')}
+            />
+            Replace
+          </label>
+          <label className="inline-flex items-center gap-1 cursor-pointer">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={mode === 'append'}
+              onChange={() => setMode('append')}
+            />
+            Append
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <DropZone
+          kind="ship"
+          label={`Ship Navigation (${shipCount} rows)`}
+          onFiles={(files) => importFiles('ship', files)}
+        />
+        <DropZone
+          kind="receiver"
+          label={`Receivers (${receiverCount} sites)`}
+          onFiles={(files) => importFiles('receiver', files)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DataImportPanel;
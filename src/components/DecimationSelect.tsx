@@ -0,0 +1,25 @@
+import React from 'react';
+import { DECIMATION_STRATEGIES, DecimationStrategy } from '@/lib/UPlot.utils';
+
+interface DecimationSelectProps {
+  value: DecimationStrategy;
+  onChange: (strategy: DecimationStrategy) => void;
+}
+
+// Dropdown choosing how a plot downsamples large datasets
+const DecimationSelect: React.FC<DecimationSelectProps> = ({ value, onChange }) => (
+  <label className="inline-flex items-center gap-2 text-sm text-gray-900 dark:text-gray-300">
+    Decimation
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as DecimationStrategy)}
+      className="px-2 py-1 rounded border border-gray-300"
+    >
+      {DECIMATION_STRATEGIES.map(({ value, label }) => (
+        <option key={value} value={value}>{label}</option>
+      ))}
+    </select>
+  </label>
+);
+
+export default DecimationSelect;
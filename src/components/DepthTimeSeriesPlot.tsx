@@ -1,177 +1,137 @@
 import uPlot from 'uplot';
 import 'uplot/dist/uPlot.min.css';
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { useShipStore } from '@/Store/shipStore';
+import { useShipStore, ShipChannel } from '@/Store/shipStore';
 import { wheelZoomPlugin } from '@/lib/uplot-wheel-zoom-plugin';
-import { paddedRange, processTimestamps, formatTime } from '@/lib/UPlot.utils';
-import { useDateRangeStore } from '@/Store/dateRangeStore';
+import { lodPlugin, findVisibleWindow } from '@/lib/uplot-lod-plugin';
+import { cursorTimePlugin, TIME_SYNC_KEY } from '@/lib/uplot-cursor-time-plugin';
+import { rangeZoomPlugin } from '@/lib/uplot-range-zoom-plugin';
+import { paddedRange, formatTime, pickTimestamps, pickValues, decimateIndices, DecimationStrategy } from '@/lib/UPlot.utils';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
+import { usePlotSettingsStore } from '@/Store/plotSettingsStore';
+import DecimationSelect from '@/components/DecimationSelect';
+import SeriesToggle from '@/components/SeriesToggle';
+
+const MAX_POINTS = 20000;
+const PLOT_ID = 'depth';
+
+// Series of the depth plot, in chart order
+const DEPTH_SERIES: { key: ShipChannel; label: string; color: string; defaultVisible: boolean }[] = [
+  { key: 'suesiDepth', label: 'SUESI Depth (m)', color: 'blue', defaultVisible: true },
+  { key: 'bathy', label: 'Bathymetry (m)', color: 'red', defaultVisible: true },
+  { key: 'atetDepth', label: 'ATET Depth (m)', color: 'orange', defaultVisible: true },
+  { key: 'vulcanDepth', label: 'Vulcan Depth (m)', color: 'purple', defaultVisible: true },
+  { key: 'winch', label: 'Winch Length (m)', color: 'green', defaultVisible: false },
+];
+
+// Saved visibility of a series, falling back to its default
+const isSeriesVisible = (visibility: Record<string, boolean> | undefined, key: ShipChannel): boolean => {
+  return visibility?.[key] ?? DEPTH_SERIES.find(series => series.key === key)?.defaultVisible ?? true;
+};
+
+// Saved visibility read from the store, for chart hooks and callbacks that must not rebuild the chart
+const isSeriesVisibleNow = (key: ShipChannel): boolean => {
+  return isSeriesVisible(usePlotSettingsStore.getState().seriesVisibility[PLOT_ID], key);
+};
 
 export default function DepthTimeSeriesPlot() {
-  const { data } = useShipStore();
-  const { minDate, maxDate } = useDateRangeStore();
+  const { columns } = useShipStore();
+  const { startIdx, endIdx } = useTimeWindowStore();
+  const visibility = usePlotSettingsStore((state) => state.seriesVisibility[PLOT_ID]);
+  const setSeriesVisible = usePlotSettingsStore((state) => state.setSeriesVisible);
   const plotRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<uPlot | null>(null);
+  const resizeObserverRef = useRef<ResizeObserver | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [showWinch, setShowWinch] = useState<boolean>(false);
-  
-  // Store processed data for reuse without recalculation
-  const dataRef = useRef<{
-    sortedTimestamps: number[];
-    suesiDepths: (number | null)[];
-    bathyDepths: (number | null)[];
-    winchLengths: (number | null)[];
-  } | null>(null);
+  const [strategy, setStrategy] = useState<DecimationStrategy>('minmax');
+
+  // Row indices within the date range (or a visible part of it) that have at least one depth value,
+  // decimated so the extremes of the series visible at the time survive
+  const getFilteredIndices = useCallback((from: number = startIdx, to: number = endIdx) => {
+    const channels = DEPTH_SERIES.map(series => columns.channels[series.key]);
 
-  // Filter data based on date range
-  const getFilteredData = useCallback(() => {
-    // Create a clean dataset with valid entries only
-    const validData = data.filter(d => 
-      d.datetime && 
-      (d.suesiDepth !== undefined || d.bathy !== undefined)
-    );
-    
-    // Further filter by date range if set
-    if (minDate !== null && maxDate !== null) {
-      return validData.filter(d => {
-        if (!d.datetime) return false;
-        const timestamp = new Date(d.datetime).getTime();
-        return timestamp >= minDate && timestamp <= maxDate;
-      });
+    const indices: number[] = [];
+    for (let i = from; i < to; i++) {
+      if (channels.some(values => !isNaN(values[i]))) indices.push(i);
     }
-    
-    return validData;
-  }, [data, minDate, maxDate]);
 
-  // Update chart when showWinch changes
+    const visibleChannels = DEPTH_SERIES
+      .filter(series => isSeriesVisibleNow(series.key))
+      .map(series => columns.channels[series.key]);
+    return decimateIndices(columns.time, visibleChannels, indices, MAX_POINTS, strategy);
+  }, [columns, startIdx, endIdx, strategy]);
+
+  // Chart data for the given rows: time followed by every series in DEPTH_SERIES order
+  const buildChartData = useCallback((indices: number[]): uPlot.AlignedData => [
+    pickTimestamps(columns.time, indices),
+    ...DEPTH_SERIES.map(series => pickValues(columns.channels[series.key], indices)),
+  ], [columns]);
+
+  // Latest level-of-detail query, called by the LOD plugin when the chart is zoomed
+  const lodQueryRef = useRef<(min: number, max: number) => uPlot.AlignedData | null>(() => null);
+  useEffect(() => {
+    lodQueryRef.current = (min, max) => {
+      const [from, to] = findVisibleWindow(columns.time, startIdx, endIdx, min, max);
+      const indices = getFilteredIndices(from, to);
+      return indices.length ? buildChartData(indices) : null;
+    };
+  }, [columns, startIdx, endIdx, getFilteredIndices, buildChartData]);
+
+  // Apply visibility changes to the existing chart without rebuilding it, then decimate again
+  // over the series now visible so a newly shown series keeps its extremes
   useEffect(() => {
-    if (!chartRef.current || !dataRef.current) return;
-    
-    const { sortedTimestamps, suesiDepths, bathyDepths, winchLengths } = dataRef.current;
     const chart = chartRef.current;
-    
-    // Check if winch series exists
-    const hasWinchSeries = chart.series.length > 3;
-    
-    // Add winch series if it should be shown but isn't
-    if (showWinch && !hasWinchSeries) {
-      console.log("Adding winch data series");
-      
-      chart.addSeries({
-        label: 'Winch Length (m)', 
-        stroke: 'green',
-        points: {
-          show: true,
-          fill: 'green',
-          size: 3
-        },
-        paths: () => null,
-      });
-      
-      chart.setData([
-        sortedTimestamps, 
-        suesiDepths, 
-        bathyDepths, 
-        winchLengths
-      ] as uPlot.AlignedData);
-    } 
-    // Remove winch series if it shouldn't be shown but is
-    else if (!showWinch && hasWinchSeries) {
-      console.log("Removing winch data series");
-      
-      const lastSeriesIdx = chart.series.length - 1;
-      chart.delSeries(lastSeriesIdx);
-      
-      chart.setData([
-        sortedTimestamps, 
-        suesiDepths, 
-        bathyDepths
-      ] as uPlot.AlignedData);
+    if (!chart) return;
+
+    DEPTH_SERIES.forEach((series, i) => {
+      const show = isSeriesVisible(visibility, series.key);
+      if (chart.series[i + 1].show !== show) {
+        chart.setSeries(i + 1, { show });
+      }
+    });
+
+    const { min, max } = chart.scales.x;
+    if (min == null || max == null) return;
+    const data = lodQueryRef.current(min, max);
+    if (data) {
+      chart.setData(data, false);
+      chart.redraw();
     }
-  }, [showWinch]);
+  }, [visibility]);
 
-  // Main effect to create the chart
+  // Destroy the chart only on unmount; data changes update it in place
   useEffect(() => {
-    if (plotRef.current && data.length) {
+    return () => {
+      if (chartRef.current) {
+        chartRef.current.destroy();
+        chartRef.current = null;
+      }
+      resizeObserverRef.current?.disconnect();
+      resizeObserverRef.current = null;
+    };
+  }, []);
+
+  // Main effect to create the chart or update its data
+  useEffect(() => {
+    if (plotRef.current && columns.length) {
       try {
         setError(null);
         
-        // Get filtered data
-        const filteredData = getFilteredData();
+        // Get filtered rows
+        const filteredIndices = getFilteredIndices();
         
-        console.log(`Found ${filteredData.length} data points with datetime and depth values in selected range`);
+        console.log(`Found ${filteredIndices.length} data points with datetime and depth values in selected range`);
         
-        if (data.length === 0) {
-          setError("No data available for plotting");
-          return;
-        }
-
-        if (filteredData.length === 0) {
+        if (filteredIndices.length === 0) {
           setError("No valid data points found with both datetime and depth values in the selected range");
           return;
         }
 
-        const { timeIndices, sortedTimestamps } = processTimestamps(filteredData, { convertToSeconds: true });
-        
-        // Extract depth values aligned with sorted timestamps
-        const suesiDepths = timeIndices.map(i => 
-          filteredData[i].suesiDepth !== undefined ? filteredData[i].suesiDepth : null
-        );
-        
-        const bathyDepths = timeIndices.map(i => 
-          filteredData[i].bathy !== undefined ? filteredData[i].bathy : null
-        );
-        
-        // Extract winch values for later use
-        const winchLengths = timeIndices.map(i => 
-          filteredData[i].winch !== undefined ? filteredData[i].winch : null
-        );
-
-        // Store processed data for reuse
-        dataRef.current = {
-          sortedTimestamps,
-          suesiDepths,
-          bathyDepths,
-          winchLengths
-        };
-
-        // Find the min and max depths for scale setting
-        const allDepths = [...suesiDepths, ...bathyDepths, ...winchLengths].filter(d => d !== null) as number[];
-        
-        if (allDepths.length === 0) {
-          setError("No valid depth values found in the data for the selected date range");
-          return;
-        }
+        const chartData = buildChartData(filteredIndices);
         
         // If chart already exists, just update the data
         if (chartRef.current) {
           console.log("Updating existing depth plot data");
-          
-          // Initialize data - always start with basic data
-          const chartData: uPlot.AlignedData = [sortedTimestamps, suesiDepths, bathyDepths];
-          
-          // If there's a winch series and showWinch is true, add the winch data
-          const hasWinchSeries = chartRef.current.series.length > 3;
-          if (showWinch) {
-            if (!hasWinchSeries) {
-              // Add the winch series if it doesn't exist
-              chartRef.current.addSeries({
-                label: 'Winch Length (m)', 
-                stroke: 'green',
-                points: {
-                  show: true,
-                  fill: 'green',
-                  size: 3
-                },
-                paths: () => null,
-              });
-            }
-            chartData.push(winchLengths);
-          } else if (hasWinchSeries) {
-            // Remove the winch series if it exists but shouldn't
-            const lastSeriesIdx = chartRef.current.series.length - 1;
-            chartRef.current.delSeries(lastSeriesIdx);
-          }
-          
           chartRef.current.setData(chartData);
           return;
         }
@@ -183,17 +143,32 @@ export default function DepthTimeSeriesPlot() {
           title: "Depth Time Series",
           width: plotRef.current.clientWidth || window.innerWidth - 50,
           height: 300,
-          plugins: [wheelZoomPlugin({
-            factor: 0.9,
-            drag: true,
-            scroll: true,
-          })],
+          plugins: [
+            wheelZoomPlugin({
+              factor: 0.9,
+              drag: true,
+              scroll: true,
+            }),
+            lodPlugin({ getData: (min, max) => lodQueryRef.current(min, max) }),
+            cursorTimePlugin(),
+            rangeZoomPlugin(),
+          ],
           cursor: {
             drag: { x: true, y: true, uni: 1, dist: 30 },
             sync: {
-							key: 'test',
+              key: TIME_SYNC_KEY,
               scales: ["x", null],
-						}
+            }
+          },
+          hooks: {
+            // Keep the saved visibility in step with legend clicks
+            setSeries: [
+              (_u, seriesIdx, seriesOpts) => {
+                if (seriesIdx && seriesOpts.show !== undefined && seriesOpts.show !== isSeriesVisibleNow(DEPTH_SERIES[seriesIdx - 1].key)) {
+                  usePlotSettingsStore.getState().setSeriesVisible(PLOT_ID, DEPTH_SERIES[seriesIdx - 1].key, seriesOpts.show);
+                }
+              }
+            ]
           },
           series: [
             {
@@ -202,26 +177,17 @@ export default function DepthTimeSeriesPlot() {
                 return formatTime(v*1000);
               }
             }, 
-            { 
-              label: 'SUESI Depth (m)', 
-              stroke: 'blue',
+            ...DEPTH_SERIES.map(series => ({
+              label: series.label,
+              stroke: series.color,
+              show: isSeriesVisibleNow(series.key),
               paths: () => null,
               points: {
-                fill: 'blue',
+                fill: series.color,
                 show: true,
                 size: 3
               }
-            },
-            { 
-              label: 'Bathymetry (m)', 
-              stroke: 'red',
-              paths: () => null,
-              points: {
-                fill: 'red',
-                show: true,
-                size: 3
-              }
-            },
+            })),
           ],
           scales: {
             x: {
@@ -255,26 +221,8 @@ export default function DepthTimeSeriesPlot() {
         if (plotRef.current.firstChild) {
           plotRef.current.innerHTML = '';
         }
-
-        // Initial data without winch
-        let initialData: uPlot.AlignedData = [sortedTimestamps, suesiDepths, bathyDepths];
         
-        // If showWinch is true at initialization, prepare the chart with winch series
-        if (showWinch) {
-          opts.series.push({
-            label: 'Winch Length (m)', 
-            stroke: 'green',
-            points: {
-              show: true,
-              fill: 'green',
-              size: 3
-            },
-            paths: () => null,
-          });
-          initialData = [sortedTimestamps, suesiDepths, bathyDepths, winchLengths];
-        }
-        
-        chartRef.current = new uPlot(opts, initialData, plotRef.current);
+        chartRef.current = new uPlot(opts, chartData, plotRef.current);
 
         // Make plot responsive
         const resizeObserver = new ResizeObserver(() => {
@@ -287,50 +235,41 @@ export default function DepthTimeSeriesPlot() {
         });
         
         resizeObserver.observe(plotRef.current);
-
-        return () => {
-          if (chartRef.current) {
-            chartRef.current.destroy();
-            chartRef.current = null;
-          }
-          resizeObserver.disconnect();
-        };
+        resizeObserverRef.current = resizeObserver;
       } catch (err) {
         console.error("Error creating chart:", err);
         setError(`Error creating chart: ${err instanceof Error ? err.message : String(err)}`);
       }
-    } else if (data.length === 0) {
+    } else if (columns.length === 0) {
       console.log("No data available for plotting");
     } else if (!plotRef.current) {
       console.log("Plot reference not ready");
     }
-  }, [data, minDate, maxDate, getFilteredData, showWinch]); // Include showWinch
+  }, [columns, startIdx, endIdx, getFilteredIndices, buildChartData]);
 
+  // The plot element stays mounted while an error shows, so the chart survives it
   return (
     <div className="w-full p-4">
       {error ? (
         <div className="text-center py-8 text-red-500">{error}</div>
-      ) : data.length === 0 ? (
+      ) : columns.length === 0 ? (
         <div className="text-center py-8">No data available</div>
       ) : (
-        <>
-          <div className="mb-4 flex items-center">
-            <label className="inline-flex items-center cursor-pointer">
-              <input 
-                type="checkbox" 
-                checked={showWinch} 
-                onChange={(e) => setShowWinch(e.target.checked)}
-                className="sr-only peer"
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-4">
+            {DEPTH_SERIES.map(series => (
+              <SeriesToggle
+                key={series.key}
+                label={series.label}
+                checked={isSeriesVisible(visibility, series.key)}
+                onChange={(checked) => setSeriesVisible(PLOT_ID, series.key, checked)}
               />
-              <div className="relative w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
-              <span className="ms-3 text-sm font-medium text-gray-900 dark:text-gray-300">
-                Show Winch Length
-              </span>
-            </label>
+            ))}
           </div>
-          <div ref={plotRef}></div>
-        </>
+          <DecimationSelect value={strategy} onChange={setStrategy} />
+        </div>
       )}
+      <div ref={plotRef} className={error || columns.length === 0 ? 'hidden' : ''}></div>
     </div>
   );
-} 
\ No newline at end of file
+}
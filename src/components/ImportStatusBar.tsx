@@ -0,0 +1,94 @@
+/**
+ * ImportStatusBar Component
+ *
+ * Shows the progress of CSV imports running in the parser worker:
+ * rows parsed, bytes read, estimated time remaining, and a cancel button.
+ * Once ship data is loaded, notes while its derived channels are still being computed.
+ */
+import React from 'react';
+import { useImportStore, ImportTask } from '@/Store/importStore';
+import { useShipStore } from '@/Store/shipStore';
+import { DatasetKind } from '@/lib/columnMapping';
+
+interface ImportStatusBarProps {
+  kinds?: DatasetKind[];  // Datasets to show, defaults to all
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatEta = (etaMs: number | null): string => {
+  if (etaMs === null) return 'estimating...';
+  const seconds = Math.ceil(etaMs / 1000);
+  if (seconds < 60) return `${seconds} s left`;
+  return `${Math.floor(seconds / 60)} min ${seconds % 60} s left`;
+};
+
+const TaskStatus: React.FC<{ kind: DatasetKind; task: ImportTask }> = ({ kind, task }) => {
+  const cancelTask = useImportStore((state) => state.cancelTask);
+  const deriving = useShipStore((state) => state.deriving);
+  const { progress } = task;
+  const fraction = progress.totalBytes > 0 ? progress.bytes / progress.totalBytes : 0;
+
+  if (task.state === 'error') {
+    return <p className="text-red-500">Error loading {task.label}: {task.error}</p>;
+  }
+  if (task.state === 'cancelled') {
+    return <p className="text-gray-600">Import of {task.label} was cancelled</p>;
+  }
+  if (task.state === 'done') {
+    return (
+      <p className="text-gray-700">
+        Loaded {progress.rows.toLocaleString()} rows from {task.label}
+        {kind === 'ship' && deriving && <span className="text-gray-500"> (computing derived channels...)</span>}
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-gray-800">
+          Parsing <span className="font-mono">{task.label}</span>
+        </span>
+        <button
+          onClick={() => cancelTask(kind)}
+          className="px-2 py-0.5 bg-gray-200 rounded hover:bg-gray-300 text-xs font-medium transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="h-2 w-full bg-gray-200 rounded">
+        <div
+          className="h-2 bg-blue-600 rounded transition-all"
+          style={{ width: `${Math.round(fraction * 100)}%` }}
+        />
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-gray-600 font-mono">
+        <span>{progress.rows.toLocaleString()} rows</span>
+        <span>{formatBytes(progress.bytes)} / {formatBytes(progress.totalBytes)}</span>
+        <span>{formatEta(progress.etaMs)}</span>
+      </div>
+    </div>
+  );
+};
+
+const ImportStatusBar: React.FC<ImportStatusBarProps> = ({ kinds = ['ship', 'receiver'] }) => {
+  const tasks = useImportStore((state) => state.tasks);
+  const visible = kinds.filter(kind => tasks[kind] !== null);
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-2 text-sm">
+      {visible.map(kind => (
+        <TaskStatus key={kind} kind={kind} task={tasks[kind] as ImportTask} />
+      ))}
+    </div>
+  );
+};
+
+export default ImportStatusBar;
@@ -0,0 +1,200 @@
+/**
+ * MapView Component
+ *
+ * A Leaflet map showing the ship track, the active date-range subset of the
+ * track and the receiver sites on a geographic basemap, with the ship position
+ * at the time hovered in the charts.
+ *
+ * Basemaps are designed to work at sea without internet:
+ * - The vector coastline bundled in `public/data/coastline.geojson` (the default)
+ * - Local raster tiles served from `public/tiles/{z}/{x}/{y}.png`, if exported there
+ * - OpenStreetMap tiles when a connection is available
+ */
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, LayersControl, LayerGroup, Polyline, CircleMarker, Tooltip, GeoJSON, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { FeatureCollection } from 'geojson';
+import { useShipStore, useReceiverStore } from '@/Store/shipStore';
+import { useDateRangeStore } from '@/Store/dateRangeStore';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
+import { useCursorTimeStore } from '@/Store/cursorTimeStore';
+import { decimateData, findNearestIndex } from '@/lib/UPlot.utils';
+
+const MAX_TRACK_POINTS = 5000;
+
+// Sea colour behind the coastline when no raster tiles are shown
+const SEA_COLOR = '#d4e6f1';
+
+// Fits the map view to the given bounds whenever they change (i.e. for each new dataset)
+const FitBounds: React.FC<{ bounds: L.LatLngBounds | null }> = ({ bounds }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (bounds && bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [20, 20] });
+    }
+  }, [map, bounds]);
+
+  return null;
+};
+
+// Ship position at the time hovered in any chart
+const CursorMarker: React.FC = () => {
+  const { columns } = useShipStore();
+  const cursorTime = useCursorTimeStore((state) => state.time);
+
+  if (cursorTime === null) return null;
+  const row = findNearestIndex(columns.time, cursorTime);
+  const { latitude, longitude } = columns.channels;
+  if (row < 0 || isNaN(latitude[row]) || isNaN(longitude[row])) return null;
+
+  return (
+    <CircleMarker
+      center={[latitude[row], longitude[row]]}
+      radius={7}
+      pathOptions={{ color: 'black', weight: 2, fillColor: 'red', fillOpacity: 0.8 }}
+    />
+  );
+};
+
+const MapView: React.FC = () => {
+  const { columns: shipColumns } = useShipStore();
+  const { data: rcvData } = useReceiverStore();
+  const { minDate, maxDate } = useDateRangeStore();
+  const { startIdx, endIdx } = useTimeWindowStore();
+  const [coastline, setCoastline] = useState<FeatureCollection | null>(null);
+  const [coastlineError, setCoastlineError] = useState<string | null>(null);
+
+  // Load the offline coastline shipped in public/data
+  useEffect(() => {
+    const loadCoastline = async () => {
+      try {
+        const response = await fetch(`${import.meta.env.BASE_URL}data/coastline.geojson`);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        setCoastline(await response.json());
+      } catch (error) {
+        console.warn("Error loading offline coastline:", error);
+        setCoastlineError(`Offline coastline could not be loaded (${error instanceof Error ? error.message : String(error)})`);
+      }
+    };
+
+    loadCoastline();
+  }, []);
+
+  // Decimated [lat, lon] track of the ship rows in [start, end) that have a position
+  const getTrack = useCallback((start: number, end: number) => {
+    const { latitude, longitude } = shipColumns.channels;
+    const validIndices: number[] = [];
+    for (let i = start; i < end; i++) {
+      if (!isNaN(latitude[i]) && !isNaN(longitude[i])) validIndices.push(i);
+    }
+    return decimateData(validIndices, MAX_TRACK_POINTS)
+      .map(i => [latitude[i], longitude[i]] as [number, number]);
+  }, [shipColumns]);
+
+  // Full ship track, decimated for rendering
+  const shipTrack = useMemo(() => getTrack(0, shipColumns.length), [getTrack, shipColumns]);
+
+  // Track within the active date range
+  const selectedTrack = useMemo(() => {
+    if (minDate === null || maxDate === null) return [];
+    return getTrack(startIdx, endIdx);
+  }, [getTrack, startIdx, endIdx, minDate, maxDate]);
+
+  const receivers = useMemo(() => rcvData.filter(d =>
+    d.latitude !== undefined && d.longitude !== undefined
+  ), [rcvData]);
+
+  // Bounds of everything on the map, used for the initial view
+  // Keyed on the parsed position columns, which only change with a new dataset, so recomputing
+  // the derived channels after a settings change keeps the user's pan and zoom
+  const { time: shipTime, channels: { latitude: shipLatitude, longitude: shipLongitude } } = shipColumns;
+  const bounds = useMemo(() => {
+    const points: [number, number][] = receivers.map(d => [d.latitude, d.longitude] as [number, number]);
+    let [south, west, north, east] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < shipTime.length; i++) {
+      if (isNaN(shipLatitude[i]) || isNaN(shipLongitude[i])) continue;
+      south = Math.min(south, shipLatitude[i]);
+      north = Math.max(north, shipLatitude[i]);
+      west = Math.min(west, shipLongitude[i]);
+      east = Math.max(east, shipLongitude[i]);
+    }
+    if (south <= north) points.push([south, west], [north, east]);
+    return points.length ? L.latLngBounds(points) : null;
+  }, [shipTime, shipLatitude, shipLongitude, receivers]);
+
+  if (!bounds) {
+    return <div className="text-center py-8">No data available</div>;
+  }
+
+  return (
+    <div className="w-full p-4">
+      {coastlineError && <div className="mb-2 text-sm text-red-500">{coastlineError}</div>}
+      <MapContainer
+        bounds={bounds}
+        preferCanvas={true}
+        className="w-full h-[500px] rounded"
+        style={{ background: SEA_COLOR }}
+      >
+        <FitBounds bounds={bounds} />
+        <LayersControl position="topright">
+          <LayersControl.BaseLayer checked name="Coastline only (offline)">
+            <LayerGroup />
+          </LayersControl.BaseLayer>
+          <LayersControl.BaseLayer name="Offline Tiles">
+            <TileLayer
+              url={`${import.meta.env.BASE_URL}tiles/{z}/{x}/{y}.png`}
+              maxNativeZoom={10}
+              maxZoom={16}
+            />
+          </LayersControl.BaseLayer>
+          <LayersControl.BaseLayer name="OpenStreetMap (online)">
+            <TileLayer
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            />
+          </LayersControl.BaseLayer>
+
+          {coastline && (
+            <LayersControl.Overlay checked name="Coastline">
+              <GeoJSON data={coastline} style={{ color: '#555', weight: 1, fillColor: '#efe9d8', fillOpacity: 0.8 }} />
+            </LayersControl.Overlay>
+          )}
+
+          <LayersControl.Overlay checked name="Ship Track">
+            <Polyline positions={shipTrack} pathOptions={{ color: 'gray', weight: 1 }} />
+          </LayersControl.Overlay>
+
+          <LayersControl.Overlay checked name="Selected Range">
+            <Polyline positions={selectedTrack} pathOptions={{ color: 'red', weight: 2 }} />
+          </LayersControl.Overlay>
+
+          <LayersControl.Overlay checked name="Receivers">
+            <LayerGroup>
+              {receivers.map((d, i) => (
+                <CircleMarker
+                  key={`${d.siteName ?? 'rx'}-${i}`}
+                  center={[d.latitude as number, d.longitude as number]}
+                  radius={5}
+                  pathOptions={{ color: 'blue', fillColor: 'blue', fillOpacity: 0.5 }}
+                >
+                  {d.siteName !== undefined && (
+                    <Tooltip direction="right" offset={[6, 0]} permanent>
+                      {d.siteName}
+                    </Tooltip>
+                  )}
+                </CircleMarker>
+              ))}
+            </LayerGroup>
+          </LayersControl.Overlay>
+        </LayersControl>
+        <CursorMarker />
+      </MapContainer>
+    </div>
+  );
+};
+
+export default MapView;
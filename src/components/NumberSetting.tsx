@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+
+interface NumberSettingProps {
+  label: string;
+  value: number;
+  step?: number;
+  min?: number;
+  max?: number;
+  onApply: (value: number) => void;
+}
+
+// Number input whose draft is applied on blur or Enter, for settings that are expensive to apply
+const NumberSetting: React.FC<NumberSettingProps> = ({ label, value, step = 1, min, max, onApply }) => {
+  const [draft, setDraft] = useState<string>(String(value));
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const apply = () => {
+    const parsed = parseFloat(draft);
+    if (isNaN(parsed) || (min !== undefined && parsed < min) || (max !== undefined && parsed > max)) {
+      setDraft(String(value));
+      return;
+    }
+    if (parsed !== value) onApply(parsed);
+  };
+
+  return (
+    <label className="inline-flex items-center gap-2">
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={apply}
+        onKeyDown={(e) => { if (e.key === 'Enter') apply(); }}
+        className="w-20 px-2 py-1 rounded border border-gray-300"
+      />
+    </label>
+  );
+};
+
+export default NumberSetting;
@@ -0,0 +1,237 @@
+/**
+ * OffsetCoveragePlot Component
+ *
+ * Source–receiver offset against time for every receiver, coloured by site, for survey QC:
+ * near-offset coverage, gaps and in-line asymmetry of each site show at a glance.
+ *
+ * The component handles:
+ * - Measuring offsets from the ship or from the transmitter estimate
+ * - Signing offsets by whether the tow is approaching or leaving a site
+ * - Hiding offsets beyond a maximum so the near offsets stay readable
+ */
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import uPlot from 'uplot';
+import 'uplot/dist/uPlot.min.css';
+import { useShipStore, useReceiverStore } from '@/Store/shipStore';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
+import { wheelZoomPlugin } from '@/lib/uplot-wheel-zoom-plugin';
+import { lodPlugin, findVisibleWindow } from '@/lib/uplot-lod-plugin';
+import { cursorTimePlugin, TIME_SYNC_KEY } from '@/lib/uplot-cursor-time-plugin';
+import { rangeZoomPlugin } from '@/lib/uplot-range-zoom-plugin';
+import { formatTime, pickTimestamps, decimateData } from '@/lib/UPlot.utils';
+import { getTrack, makeOffsetFunction, TrackSource } from '@/lib/receiverPasses';
+import NumberSetting from '@/components/NumberSetting';
+import SeriesToggle from '@/components/SeriesToggle';
+
+// Fewer points per series than the single-channel plots, since every receiver is a series
+const MAX_POINTS = 5000;
+
+// Distinct colour for each site, spreading hues by the golden angle
+const siteColor = (index: number): string => `hsl(${(index * 137.508) % 360}, 70%, 45%)`;
+
+const OffsetCoveragePlot: React.FC = () => {
+  const { columns } = useShipStore();
+  const { data: rcvData } = useReceiverStore();
+  const { startIdx, endIdx } = useTimeWindowStore();
+  const plotRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<uPlot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [trackSource, setTrackSource] = useState<TrackSource>('ship');
+  const [signed, setSigned] = useState<boolean>(false);
+  const [maxOffsetKm, setMaxOffsetKm] = useState<number>(10);
+
+  const track = useMemo(() => getTrack(columns, trackSource), [columns, trackSource]);
+
+  // Receivers with a position, with their offset functions
+  const sites = useMemo(() => rcvData.flatMap((receiver, index) =>
+    receiver.latitude === undefined || receiver.longitude === undefined ? [] : [{
+      name: receiver.siteName ?? `#${index + 1}`,
+      color: siteColor(index),
+      offsetFrom: makeOffsetFunction(receiver.latitude, receiver.longitude),
+    }]
+  ), [rcvData]);
+
+  // Rows within the date range (or a visible part of it) with a track position
+  const getFilteredIndices = useCallback((from: number = startIdx, to: number = endIdx) => {
+    const indices: number[] = [];
+    for (let i = from; i < to; i++) {
+      if (!isNaN(track.latitude[i]) && !isNaN(track.longitude[i])) indices.push(i);
+    }
+    return decimateData(indices, MAX_POINTS);
+  }, [track, startIdx, endIdx]);
+
+  // Chart data for the given rows: time, then the offset of every site in km
+  const buildChartData = useCallback((indices: number[]): uPlot.AlignedData => {
+    const course = columns.channels.courseOverGround;
+
+    const offsets = sites.map(site => indices.map(i => {
+      const [dx, dy] = site.offsetFrom(track.latitude[i], track.longitude[i]);
+      const offset = Math.sqrt(dx * dx + dy * dy) / 1000;
+      if (offset > maxOffsetKm) return null;
+      if (!signed) return offset;
+
+      // Negative while the tow heads towards the site, positive once it has passed
+      const theta = course[i] * Math.PI / 180;
+      if (isNaN(theta)) return null;
+      return dx * Math.sin(theta) + dy * Math.cos(theta) < 0 ? -offset : offset;
+    }));
+
+    return [pickTimestamps(columns.time, indices), ...offsets];
+  }, [columns, sites, track, signed, maxOffsetKm]);
+
+  // Latest level-of-detail query, called by the LOD plugin when the chart is zoomed
+  const lodQueryRef = useRef<(min: number, max: number) => uPlot.AlignedData | null>(() => null);
+  useEffect(() => {
+    lodQueryRef.current = (min, max) => {
+      const [from, to] = findVisibleWindow(columns.time, startIdx, endIdx, min, max);
+      const indices = getFilteredIndices(from, to);
+      return indices.length ? buildChartData(indices) : null;
+    };
+  }, [columns, startIdx, endIdx, getFilteredIndices, buildChartData]);
+
+  // Main effect to create the chart
+  useEffect(() => {
+    if (!plotRef.current || !columns.length || !sites.length) return;
+
+    try {
+      setError(null);
+
+      const filteredIndices = getFilteredIndices();
+
+      if (filteredIndices.length === 0) {
+        setError("No track positions found in the selected range");
+        return;
+      }
+
+      const chartData = buildChartData(filteredIndices);
+
+      const opts: uPlot.Options = {
+        mode: 1,
+        title: "",
+        width: plotRef.current.clientWidth || window.innerWidth - 50,
+        height: 400,
+        plugins: [
+          wheelZoomPlugin({
+            factor: 0.9,
+            drag: true,
+            scroll: true,
+          }),
+          lodPlugin({ getData: (min, max) => lodQueryRef.current(min, max) }),
+          cursorTimePlugin(),
+          rangeZoomPlugin(),
+        ],
+        cursor: {
+          drag: { x: true, y: true, uni: 1, dist: 30 },
+          sync: {
+            key: TIME_SYNC_KEY,
+            scales: ["x", null],
+          }
+        },
+        series: [
+          {
+            label: "Time",
+            value: (_u, v) => formatTime(v*1000),
+          },
+          ...sites.map(site => ({
+            label: site.name,
+            stroke: site.color,
+            width: 1.5,
+            value: (_u: uPlot, v: number | null) => v == null ? '-' : `${v.toFixed(2)} km`,
+          })),
+        ],
+        scales: {
+          x: {
+            time: true,
+          },
+          y: {
+            range: signed ? [-maxOffsetKm, maxOffsetKm] : [0, maxOffsetKm],
+          },
+        },
+        axes: [
+          {values: [
+            // tick incr  default       year                        month   day                  hour   min               sec  mode
+            [3600*24*365,"{YYYY}",      null,                       null, null,                  null, null,              null, 1],
+            [3600*24*28, "{MMM}",       "\n{YYYY}",                 null, null,                  null, null,              null, 1],
+            [3600*24,    "{D}/{M}",     "\n{YYYY}",                 null, null,                  null, null,              null, 1],
+            [3600,       "{HH}",        "\n{D}/{M}/{YY}",           null, "\n{D}/{M}",           null, null,              null, 1],
+            [60,         "{HH}:{mm}",   "\n{D}/{M}/{YY}",           null, "\n{D}/{M}",           null, null,              null, 1],
+            [1,          ":{ss}",       "\n{D}/{M}/{YY} {HH}:{mm}", null, "\n{D}/{M} {HH}:{mm}", null, "\n{HH}:{mm}",     null, 1],
+            [0.001,      ":{ss}.{fff}", "\n{D}/{M}/{YY} {HH}:{mm}", null, "\n{D}/{M} {HH}:{mm}", null, "\n{HH}:{mm}",     null, 1],
+                      ]},
+          {
+            label: signed ? "In-line Offset (km)" : "Offset (km)",
+          },
+        ],
+        legend: {
+          show: true
+        }
+      };
+
+      // Clean up any existing chart content
+      if (plotRef.current.firstChild) {
+        plotRef.current.innerHTML = '';
+      }
+
+      chartRef.current = new uPlot(opts, chartData, plotRef.current);
+
+      // Make plot responsive
+      const resizeObserver = new ResizeObserver(() => {
+        if (plotRef.current && plotRef.current.clientWidth > 0 && chartRef.current) {
+          chartRef.current.setSize({
+            width: plotRef.current.clientWidth,
+            height: chartRef.current.height
+          });
+        }
+      });
+
+      resizeObserver.observe(plotRef.current);
+
+      return () => {
+        if (chartRef.current) {
+          chartRef.current.destroy();
+          chartRef.current = null;
+        }
+        resizeObserver.disconnect();
+      };
+    } catch (err) {
+      console.error("Error creating offset coverage chart:", err);
+      setError(`Error creating chart: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [columns, sites, startIdx, endIdx, getFilteredIndices, buildChartData, signed, maxOffsetKm]);
+
+  return (
+    <div className="w-full p-4">
+      {columns.length === 0 || sites.length === 0 ? (
+        <div className="text-center py-8">No ship and receiver data available</div>
+      ) : (
+        <>
+          <div className="mb-4 flex flex-wrap items-center gap-4 text-sm">
+            <label className="inline-flex items-center gap-2">
+              Offset from
+              <select
+                value={trackSource}
+                onChange={(e) => setTrackSource(e.target.value as TrackSource)}
+                className="px-2 py-1 rounded border border-gray-300"
+              >
+                <option value="ship">Ship</option>
+                <option value="transmitter">Transmitter estimate</option>
+              </select>
+            </label>
+            <SeriesToggle label="Signed in-line offset" checked={signed} onChange={setSigned} />
+            <NumberSetting
+              label="Max offset (km)"
+              value={maxOffsetKm}
+              step={0.5}
+              min={0.1}
+              onApply={setMaxOffsetKm}
+            />
+          </div>
+          {error && <div className="text-center py-8 text-red-500">{error}</div>}
+          <div ref={plotRef} className={error ? 'hidden' : ''}></div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OffsetCoveragePlot;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { usePlotSettingsStore } from '@/Store/plotSettingsStore';
+
+interface PanelProps {
+  id: string;      // Key of the panel in the saved and shared panel visibility
+  title: string;
+  children: React.ReactNode;
+}
+
+// Titled card that can be collapsed; a collapsed panel unmounts its content
+const Panel: React.FC<PanelProps> = ({ id, title, children }) => {
+  const visible = usePlotSettingsStore((state) => !state.hiddenPanels.includes(id));
+  const setPanelVisible = usePlotSettingsStore((state) => state.setPanelVisible);
+
+  return (
+    <div className="w-full p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-bold">{title}</h2>
+        <button
+          onClick={() => setPanelVisible(id, !visible)}
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          {visible ? 'Hide' : 'Show'}
+        </button>
+      </div>
+      {visible && children}
+    </div>
+  );
+};
+
+export default Panel;
@@ -0,0 +1,115 @@
+/**
+ * PlaybackBar Component
+ *
+ * Replays the tow through the active date range for debriefs. The playhead drives the shared
+ * cursor time, so every time-series chart shows it as a crosshair and the position plot
+ * animates the ship and transmitter markers with a fading trail.
+ *
+ * The component handles:
+ * - Play/pause at a chosen speed multiplier
+ * - Stepping one sample back or forward
+ * - Scrubbing anywhere within the date range
+ */
+import React, { useEffect } from 'react';
+import { useShipStore } from '@/Store/shipStore';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
+import { usePlaybackStore, PLAYBACK_SPEEDS } from '@/Store/playbackStore';
+import { findNearestIndex, formatTime } from '@/lib/UPlot.utils';
+
+const PlaybackBar: React.FC = () => {
+  const shipTime = useShipStore((state) => state.columns.time);
+  const { startIdx, endIdx } = useTimeWindowStore();
+  const { playing, speed, time, setPlaying, setSpeed, seek } = usePlaybackStore();
+
+  // First and last sample of the date range
+  const hasWindow = endIdx > startIdx;
+  const windowStart = hasWindow ? shipTime[startIdx] : 0;
+  const windowEnd = hasWindow ? shipTime[endIdx - 1] : 0;
+
+  // Advance the playhead every animation frame, stopping at the end of the range
+  useEffect(() => {
+    if (!playing || !hasWindow) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const state = usePlaybackStore.getState();
+      const next = (state.time ?? windowStart) + (now - last) * state.speed;
+      last = now;
+
+      if (next >= windowEnd) {
+        seek(windowEnd);
+        setPlaying(false);
+        return;
+      }
+      seek(Math.max(next, windowStart));
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, hasWindow, windowStart, windowEnd, seek, setPlaying]);
+
+  // Start from the beginning unless paused part-way through
+  const handlePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (time === null || time < windowStart || time >= windowEnd) seek(windowStart);
+    setPlaying(true);
+  };
+
+  // Move to the previous or next sample in the range
+  const handleStep = (direction: -1 | 1) => {
+    setPlaying(false);
+    const row = time === null ? -1 : findNearestIndex(shipTime, time, startIdx, endIdx);
+    if (row < 0) {
+      seek(windowStart);
+      return;
+    }
+    const nextRow = Math.min(endIdx - 1, Math.max(startIdx, row + direction));
+    seek(shipTime[nextRow]);
+  };
+
+  if (!hasWindow) return null;
+
+  const buttonClass = "px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors";
+
+  return (
+    <div className="w-full mt-2 px-6 py-3 rounded-lg shadow-md flex flex-wrap items-center gap-3">
+      <span className="font-bold text-gray-800">Playback</span>
+      <button onClick={() => handleStep(-1)} title="Previous sample" className={buttonClass}>⏮</button>
+      <button onClick={handlePlay} className={`${buttonClass} w-20`}>
+        {playing ? '⏸ Pause' : '▶ Play'}
+      </button>
+      <button onClick={() => handleStep(1)} title="Next sample" className={buttonClass}>⏭</button>
+      <label className="inline-flex items-center gap-2 text-sm">
+        Speed
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="px-2 py-1 rounded border border-gray-300"
+        >
+          {PLAYBACK_SPEEDS.map(s => (
+            <option key={s} value={s}>{s}×</option>
+          ))}
+        </select>
+      </label>
+      <input
+        type="range"
+        min={windowStart}
+        max={windowEnd}
+        step="any"
+        value={time ?? windowStart}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="flex-1 min-w-48"
+      />
+      <span className="font-mono text-sm bg-white px-2 py-1 rounded border border-gray-300">
+        {formatTime(time ?? windowStart)}
+      </span>
+    </div>
+  );
+};
+
+export default PlaybackBar;
@@ -13,16 +13,49 @@
  * - Hover interactions to show details
  * - Custom legend display
  * - Quadtree-based efficient hit detection
+ * - A metric mode in UTM metres with a locked 1:1 aspect ratio
+ * - Transmitter positions from the layback model and the inverted long-baseline solution
+ * - The antenna (Vulcan) position behind the transmitter
+ * - Exporting the ship, transmitter and antenna positions as CSV
+ * - Highlighting the receiver picked in the receiver table
+ * - Linked hover with the time-series charts through the shared cursor time
+ * - Box and lasso selection of ship positions, setting the date range to their passes
+ * - A fading trail behind the markers while the tow is played back
+ * - Keeping the view options and zoom in a store so they can be shared in a link
  */
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import uPlot from 'uplot';
 import 'uplot/dist/uPlot.min.css';
 // Only importing QuadTree since pointWithin is provided by the library but we use our own implementation
 import QuadTree, { pointWithin } from '@/lib/quadtree';
 import { useShipStore, useReceiverStore } from '@/Store/shipStore';
 import { wheelZoomPlugin } from '@/lib/uplot-wheel-zoom-plugin';
-import { paddedRange, decimateData, formatTime } from '@/lib/UPlot.utils';
+import { paddedRange, decimateData, formatTime, findNearestIndex, lowerBound } from '@/lib/UPlot.utils';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
+import { useNavigationSettingsStore } from '@/Store/navigationSettingsStore';
+import { useReceiverSelectionStore } from '@/Store/receiverSelectionStore';
+import { useCursorTimeStore } from '@/Store/cursorTimeStore';
 import { useDateRangeStore } from '@/Store/dateRangeStore';
+import { PLAYBACK_SOURCE } from '@/Store/playbackStore';
+import { usePositionViewStore } from '@/Store/positionViewStore';
+import { latLonToUtm, resolveUtmZone } from '@/lib/projection';
+import { equalAspectPlugin } from '@/lib/uplot-equal-aspect-plugin';
+import { LAYBACK_MODELS, LaybackModel } from '@/lib/layback';
+import { AntennaHeadingSource } from '@/lib/antenna';
+import { columnsToCsv, downloadText, POSITION_EXPORT_CHANNELS } from '@/lib/exportCsv';
+import { pointInPolygon, rowsToSegments, SelectionMode, SELECTION_MODES } from '@/lib/positionSelection';
+import NumberSetting from '@/components/NumberSetting';
+import SeriesToggle from '@/components/SeriesToggle';
+// Cursor store source of this plot
+const CURSOR_SOURCE = 'position';
+
+// How close the mouse must be to a track point to hover its time, in CSS pixels
+const HOVER_RADIUS_PX = 10;
+
+// Length of the playback trail in data time, and the most segments drawn per track
+const TRAIL_MS = 15 * 60 * 1000;
+const TRAIL_MAX_POINTS = 300;
+
 // ------------------------------------------------------------------------
 // Utility Functions
 // ------------------------------------------------------------------------
@@ -79,9 +112,13 @@ function guardedRange(_u: uPlot, min: number | null, max: number | null): [numbe
  */
 const BubblePlot: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
-  const { data: shipData } = useShipStore();
+  const { columns: shipColumns } = useShipStore();
   const { data: rcvData } = useReceiverStore();
-  const { minDate, maxDate } = useDateRangeStore();
+  const { startIdx, endIdx } = useTimeWindowStore();
+  const { utmZone, setUtmZone, laybackModel, laybackRatio, setLaybackModel, setLaybackRatio } = useNavigationSettingsStore();
+  const { antenna, setAntennaSettings } = useNavigationSettingsStore();
+  const selectedReceiver = useReceiverSelectionStore((state) => state.selectedIndex);
+  const setDateSegments = useDateRangeStore((state) => state.setDateSegments);
   // ------------------------------------------------------------------------
   // Refs
   // ------------------------------------------------------------------------
@@ -98,8 +135,30 @@ const BubblePlot: React.FC = () => {
   // Reference to the currently hovered bubble point
   const hoverPointRef = useRef<QuadTree | null>(null);
   
-  // State for toggling quadtree hit detection
-  const [useQuadtree, setUseQuadtree] = useState<boolean>(false);
+  // Quadtree hit detection, and UTM metres instead of degrees; the zoom is only written, so it is not selected
+  const useQuadtree = usePositionViewStore((state) => state.useQuadtree);
+  const setUseQuadtree = usePositionViewStore((state) => state.setUseQuadtree);
+  const metric = usePositionViewStore((state) => state.metric);
+  const setMetric = usePositionViewStore((state) => state.setMetric);
+
+  // State for what a left-button drag does: zoom, or select ship positions
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('zoom');
+
+  // Saves the positions within the date range as CSV
+  const handleExport = () => {
+    const csv = columnsToCsv(shipColumns, POSITION_EXPORT_CHANNELS, startIdx, endIdx);
+    downloadText(csv, 'positions.csv');
+  };
+
+  // UTM zone of the plotted data, same as the derived ship channels; receivers decide without ship data
+  const utm = useMemo(() => {
+    const { latitude, longitude } = shipColumns.channels;
+    return resolveUtmZone(utmZone, latitude, longitude) ?? resolveUtmZone(
+      utmZone,
+      rcvData.map(d => d.latitude ?? NaN),
+      rcvData.map(d => d.longitude ?? NaN)
+    );
+  }, [shipColumns, rcvData, utmZone]);
   
   // ------------------------------------------------------------------------
   // Chart Creation Effect
@@ -109,30 +168,22 @@ const BubblePlot: React.FC = () => {
     // Only create chart if container exists and chart doesn't exist yet
     if (!containerRef.current || chartInstance.current) return;
 
-    // Filter ship data based on date range
-    const getFilteredShipData = () => {
-      if (minDate === null || maxDate === null) {
-        return shipData;
-      }
-      
-      return shipData.filter(d => {
-        if (!d.datetime) return false;
-        const timestamp = new Date(d.datetime).getTime();
-        return timestamp >= minDate && timestamp <= maxDate;
-      });
-    };
-
-    if (shipData.length || rcvData.length) {
+    if (shipColumns.length || rcvData.length) {
       try {
         setError(null);
-        // Process ship data
-        const filteredShipData = getFilteredShipData();
+        // Process ship data: rows in the date range with a position
+        const { latitude, longitude, utmEasting, utmNorthing } = shipColumns.channels;
+        const { transmitterLatitude, transmitterLongitude, transmitterEasting, transmitterNorthing } = shipColumns.channels;
+        const { lblLatitude, lblLongitude, lblEasting, lblNorthing } = shipColumns.channels;
+        const { antennaLatitude, antennaLongitude, antennaEasting, antennaNorthing } = shipColumns.channels;
+        const [xChannel, yChannel] = metric ? [utmEasting, utmNorthing] : [longitude, latitude];
         
-        const validShipData = filteredShipData.filter(d => 
-          d.datetime &&
-          (d.longitude !== undefined && d.latitude !== undefined)
-        );
-        console.log(`Found ${validShipData.length} ship data points with position information in selected date range`);
+        const validShipIndices: number[] = [];
+        for (let i = startIdx; i < endIdx; i++) {
+          if (!isNaN(xChannel[i]) && !isNaN(yChannel[i])) validShipIndices.push(i);
+        }
+        console.log(`Found ${validShipIndices.length} ship data points with position information in selected date range`);
+
 
         // Process receiver data
         const validRcvData = rcvData.filter(d => 
@@ -140,37 +191,216 @@ const BubblePlot: React.FC = () => {
         );
         console.log(`Found ${validRcvData.length} receiver data points with position information`);
 
-        if (validShipData.length === 0 && validRcvData.length === 0) {
+        if (validShipIndices.length === 0 && validRcvData.length === 0) {
           setError("No valid data points found with both 'longitude' and 'latitude' columns");
           return;
         }
 
         const MAX_POINTS = 20000;
         // Process ship data
-        const processedShipData = validShipData.length > MAX_POINTS 
-          ? decimateData(validShipData, MAX_POINTS)
-          : validShipData;
+        const processedShipIndices = validShipIndices.length > MAX_POINTS 
+          ? decimateData(validShipIndices, MAX_POINTS)
+          : validShipIndices;
+
+        // Transmitter estimates: rows in the date range with a position, decimated like the ship track
+        const collectTrack = (xValues: Float64Array, yValues: Float64Array) => {
+          const indices: number[] = [];
+          for (let i = startIdx; i < endIdx; i++) {
+            if (!isNaN(xValues[i]) && !isNaN(yValues[i])) indices.push(i);
+          }
+
+          const processed = indices.length > MAX_POINTS ? decimateData(indices, MAX_POINTS) : indices;
+          return {
+            xs: processed.map(i => xValues[i]),
+            ys: processed.map(i => yValues[i]),
+            timestamps: processed.map(i => shipColumns.time[i] / 1000),
+          };
+        };
+        const laybackTrack = metric
+          ? collectTrack(transmitterEasting, transmitterNorthing)
+          : collectTrack(transmitterLongitude, transmitterLatitude);
+        const lblTrack = metric
+          ? collectTrack(lblEasting, lblNorthing)
+          : collectTrack(lblLongitude, lblLatitude);
+        const antennaTrack = metric
+          ? collectTrack(antennaEasting, antennaNorthing)
+          : collectTrack(antennaLongitude, antennaLatitude);
+
+        // Tracks marked at the hovered time: series index, full-resolution channels and colour
+        const cursorTracks = [
+          { seriesIdx: 1, xs: xChannel, ys: yChannel, color: 'red' },
+          metric
+            ? { seriesIdx: 3, xs: transmitterEasting, ys: transmitterNorthing, color: 'green' }
+            : { seriesIdx: 3, xs: transmitterLongitude, ys: transmitterLatitude, color: 'green' },
+          metric
+            ? { seriesIdx: 4, xs: lblEasting, ys: lblNorthing, color: 'darkorange' }
+            : { seriesIdx: 4, xs: lblLongitude, ys: lblLatitude, color: 'darkorange' },
+          metric
+            ? { seriesIdx: 5, xs: antennaEasting, ys: antennaNorthing, color: 'purple' }
+            : { seriesIdx: 5, xs: antennaLongitude, ys: antennaLatitude, color: 'purple' },
+        ];
+        let cursorMarkers: HTMLDivElement[] = [];
+        let trailCanvas: HTMLCanvasElement | null = null;
+
+        // Draws each track over the trail length up to the row, more transparent the older it is
+        const drawTrail = (u: uPlot, row: number) => {
+          if (!trailCanvas) return;
+          const width = u.over.clientWidth * pxRatio;
+          const height = u.over.clientHeight * pxRatio;
+          if (trailCanvas.width !== width || trailCanvas.height !== height) {
+            trailCanvas.width = width;
+            trailCanvas.height = height;
+          }
+          const ctx = trailCanvas.getContext('2d');
+          if (!ctx) return;
+          ctx.clearRect(0, 0, width, height);
+          if (row < 0) return;
+
+          const from = Math.max(startIdx, lowerBound(shipColumns.time, shipColumns.time[row] - TRAIL_MS));
+          const stride = Math.max(1, Math.ceil((row - from) / TRAIL_MAX_POINTS));
+          ctx.lineWidth = 2 * pxRatio;
+          cursorTracks.forEach(track => {
+            ctx.strokeStyle = track.color;
+            let prev: [number, number] | null = null;
+            for (let i = from; i <= row; i = i < row ? Math.min(i + stride, row) : row + 1) {
+              const x = u.valToPos(track.xs[i], 'x') * pxRatio;
+              const y = u.valToPos(track.ys[i], 'y') * pxRatio;
+              if (isNaN(x) || isNaN(y)) {
+                prev = null;
+                continue;
+              }
+              if (prev) {
+                ctx.globalAlpha = (i - from + 1) / (row - from + 1);
+                ctx.beginPath();
+                ctx.moveTo(prev[0], prev[1]);
+                ctx.lineTo(x, y);
+                ctx.stroke();
+              }
+              prev = [x, y];
+            }
+          });
+          ctx.globalAlpha = 1;
+        };
+
+        // Moves the markers to the row nearest the cursor time, hiding those without a position;
+        // during playback the tracks also leave a trail
+        const showCursorTime = (u: uPlot, time: number | null, trail: boolean) => {
+          const row = time === null ? -1 : findNearestIndex(shipColumns.time, time, startIdx, endIdx);
+          drawTrail(u, trail ? row : -1);
+          cursorTracks.forEach((track, i) => {
+            const marker = cursorMarkers[i];
+            if (!marker) return;
+            const left = row < 0 ? NaN : u.valToPos(track.xs[row], 'x');
+            const top = row < 0 ? NaN : u.valToPos(track.ys[row], 'y');
+            const visible = left >= 0 && left <= u.over.clientWidth && top >= 0 && top <= u.over.clientHeight;
+            marker.style.display = visible ? 'block' : 'none';
+            if (visible) marker.style.transform = `translate(${left}px, ${top}px)`;
+          });
+        };
+
+        // Publishes the time of the track point under the mouse, or null away from the tracks
+        // Candidates come from the quadtree of drawn points, which is in canvas pixels of the plot area
+        const trackSeries = new Set(cursorTracks.map(track => track.seriesIdx));
+        const publishHoveredTime = (u: uPlot) => {
+          if (!u.cursor.event) return;
+          const left = u.cursor.left ?? -1;
+          const top = u.cursor.top ?? -1;
+
+          let time: number | null = null;
+          if (left >= 0 && top >= 0 && qtRef.current) {
+            const cx = left * pxRatio;
+            const cy = top * pxRatio;
+            const radius = HOVER_RADIUS_PX * pxRatio;
+            let minDist = radius;
+            qtRef.current.get(cx - radius, cy - radius, 2 * radius, 2 * radius, (qt) => {
+              if (qt.seriesIndex === undefined || qt.dataIndex === undefined || !trackSeries.has(qt.seriesIndex)) return;
+              const d = Math.hypot(qt.x + qt.w / 2 - cx, qt.y + qt.h / 2 - cy);
+              if (d < minDist) {
+                minDist = d;
+                const ts = (u.data[qt.seriesIndex] as unknown as number[][])[2];
+                time = ts[qt.dataIndex] * 1000;
+              }
+            });
+          }
+
+          const current = useCursorTimeStore.getState();
+          if (current.time !== time || current.source !== CURSOR_SOURCE) {
+            current.setCursorTime(time, CURSOR_SOURCE);
+          }
+        };
+
+        // Sets the date range to the passes of the ship positions inside a selection
+        const selectShipRows = (inside: (x: number, y: number) => boolean) => {
+          const rows: number[] = [];
+          for (let i = startIdx; i < endIdx; i++) {
+            if (!isNaN(xChannel[i]) && !isNaN(yChannel[i]) && inside(xChannel[i], yChannel[i])) rows.push(i);
+          }
+          const segments = rowsToSegments(shipColumns.time, rows);
+          if (segments.length) setDateSegments(segments);
+        };
+
+        // Box select: the dragged rectangle in data coordinates
+        const handleBoxSelect = (u: uPlot) => {
+          const { left, top, width, height } = u.select;
+          if (selectionMode !== 'box' || width <= 0 || height <= 0) return;
+
+          const [x0, x1] = [u.posToVal(left, 'x'), u.posToVal(left + width, 'x')];
+          const [y0, y1] = [u.posToVal(top + height, 'y'), u.posToVal(top, 'y')];
+          u.setSelect({ left: 0, top: 0, width: 0, height: 0 }, false);
+          selectShipRows((x, y) => x >= x0 && x <= x1 && y >= y0 && y <= y1);
+        };
+
+        // Lasso select: a freehand outline drawn over the plot and closed on release
+        let stopLasso: (() => void) | null = null;
+        const setupLasso = (u: uPlot) => {
+          const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+          Object.assign(svg.style, { position: 'absolute', left: '0', top: '0', width: '100%', height: '100%', pointerEvents: 'none' });
+          const outline = document.createElementNS('http://www.w3.org/2000/svg', 'polygon');
+          outline.setAttribute('fill', 'rgba(0,0,0,0.08)');
+          outline.setAttribute('stroke', 'black');
+          outline.setAttribute('stroke-dasharray', '4 3');
+          svg.appendChild(outline);
+          u.over.appendChild(svg);
+
+          let points: [number, number][] = [];
+          const toPos = (e: MouseEvent): [number, number] => {
+            const rect = u.over.getBoundingClientRect();
+            return [e.clientX - rect.left, e.clientY - rect.top];
+          };
+          const onMove = (e: MouseEvent) => {
+            points.push(toPos(e));
+            outline.setAttribute('points', points.map(p => p.join(',')).join(' '));
+          };
+          const onUp = () => {
+            stopLasso?.();
+            outline.setAttribute('points', '');
+            const polygon = points.map(([left, top]) => [u.posToVal(left, 'x'), u.posToVal(top, 'y')] as [number, number]);
+            points = [];
+            if (polygon.length >= 3) selectShipRows((x, y) => pointInPolygon(x, y, polygon));
+          };
+          stopLasso = () => {
+            document.removeEventListener('mousemove', onMove);
+            document.removeEventListener('mouseup', onUp);
+          };
+
+          u.over.addEventListener('mousedown', (e) => {
+            if (e.button !== 0) return;
+            points = [toPos(e)];
+            document.addEventListener('mousemove', onMove);
+            document.addEventListener('mouseup', onUp);
+          });
+        };
 
         // Process receiver data
         const processedRcvData = validRcvData.length > MAX_POINTS 
           ? decimateData(validRcvData, MAX_POINTS)
           : validRcvData;
 
-        console.log(`Processing ${processedShipData.length} ship position points (decimated from ${validShipData.length})`);
+        console.log(`Processing ${processedShipIndices.length} ship position points (decimated from ${validShipIndices.length})`);
         console.log(`Processing ${processedRcvData.length} receiver position points (decimated from ${validRcvData.length})`);
 
         // Extract timestamps for ship data
-        const shipTimestamps = processedShipData.map(d => {
-          if (d.datetime) {
-            const date = new Date(d.datetime);
-            if (isNaN(date.getTime())) {
-              console.warn(`Invalid date: ${d.datetime}`);
-              return null;
-            }
-            return date.getTime() / 1000;
-          }
-          return null;
-        }).filter(Boolean) as number[];
+        const shipTimestamps = processedShipIndices.map(i => shipColumns.time[i] / 1000);
 
         // Since receiver data doesn't have datetime, create null timestamps
         // This will be used for display purposes only
@@ -182,20 +412,34 @@ const BubblePlot: React.FC = () => {
         }
 
         // Extract coordinates for ship data
-        const shipLongitudes = processedShipData.map(d => d.longitude) as number[];
-        const shipLatitudes = processedShipData.map(d => d.latitude) as number[];
+        const shipXs = processedShipIndices.map(i => xChannel[i]);
+        const shipYs = processedShipIndices.map(i => yChannel[i]);
 
-        // Extract coordinates for receiver data
-        const rcvLongitudes = processedRcvData.map(d => d.longitude) as number[];
-        const rcvLatitudes = processedRcvData.map(d => d.latitude) as number[];
+        // Extract coordinates for receiver data, projected into the same zone as the ship in metric mode
+        const rcvPositions = processedRcvData.map(d => metric && utm
+          ? latLonToUtm(d.latitude as number, d.longitude as number, utm)
+          : { easting: d.longitude as number, northing: d.latitude as number });
+        const rcvXs = rcvPositions.map(p => p.easting);
+        const rcvYs = rcvPositions.map(p => p.northing);
+
+        // Receiver picked in the receiver table, drawn as a larger ring over the others
+        const selected = selectedReceiver !== null ? rcvData[selectedReceiver] : undefined;
+        const selectedPosition = selected?.latitude !== undefined && selected.longitude !== undefined
+          ? (metric && utm
+            ? latLonToUtm(selected.latitude, selected.longitude, utm)
+            : { easting: selected.longitude, northing: selected.latitude })
+          : null;
 
         // Find overall min/max for combined data
-        const allLongitudes = [...shipLongitudes, ...rcvLongitudes];
-        const allLatitudes = [...shipLatitudes, ...rcvLatitudes];
-        const [minLon, maxLon] = findMinMax(allLongitudes);
-        const [minLat, maxLat] = findMinMax(allLatitudes);
+        const [minX, maxX] = findMinMax([...shipXs, ...rcvXs, ...laybackTrack.xs, ...lblTrack.xs, ...antennaTrack.xs]);
+        const [minY, maxY] = findMinMax([...shipYs, ...rcvYs, ...laybackTrack.ys, ...lblTrack.ys, ...antennaTrack.ys]);
+
+        console.log(`Combined position range: X (${minX.toFixed(4)} to ${maxX.toFixed(4)}), Y (${minY.toFixed(4)} to ${maxY.toFixed(4)})`);
 
-        console.log(`Combined position range: Lon (${minLon.toFixed(4)} to ${maxLon.toFixed(4)}), Lat (${minLat.toFixed(4)} to ${maxLat.toFixed(4)})`);
+        // Axis names and value formatting for the coordinate system
+        const [xLabel, yLabel] = metric ? ["Easting", "Northing"] : ["Longitude", "Latitude"];
+        const formatX = (v: number) => metric ? `${v.toFixed(1)} m` : `${v.toFixed(5)}°E`;
+        const formatY = (v: number) => metric ? `${v.toFixed(1)} m` : `${v.toFixed(5)}°N`;
         
         // Get device pixel ratio for high-DPI displays
         const pxRatio = window.devicePixelRatio;
@@ -356,6 +600,17 @@ const BubblePlot: React.FC = () => {
             }
           },
         });
+
+        // Selected receiver highlight, not registered for hover
+        const drawSelectedPoints = makeDrawPoints({
+          disp: {
+            size: {
+              unit: 22,
+              values: () => []
+            }
+          },
+          each: () => {},
+        });
     
     // ------------------------------------------------------------------------
     // Legend Values Function
@@ -370,8 +625,8 @@ const BubblePlot: React.FC = () => {
       if (!u.data || !Array.isArray(u.data) || !u.data[seriesIdx] || dataIdx === null) {
         return {
           "Time": '-',
-          "Longitude": '-',
-          "Latitude": '-',
+          [xLabel]: '-',
+          [yLabel]: '-',
           "Type": '-',
         };
       }
@@ -386,8 +641,8 @@ const BubblePlot: React.FC = () => {
           console.error("Series data format invalid:", seriesData);
           return {
             "Time": '-',
-            "Longitude": '-',
-            "Latitude": '-',
+            [xLabel]: '-',
+            [yLabel]: '-',
             "Type": '-',
           };
         }
@@ -403,8 +658,8 @@ const BubblePlot: React.FC = () => {
           console.warn("Data index out of bounds:", idx, "for series:", seriesIdx);
           return {
             "Time": '-',
-            "Longitude": '-',
-            "Latitude": '-',
+            [xLabel]: '-',
+            [yLabel]: '-',
             "Type": '-'
           };
         }
@@ -415,13 +670,13 @@ const BubblePlot: React.FC = () => {
           'Not available';
         
         // Get series type for display
-        const pointType = seriesIdx === 1 ? "Ship" : "Receiver";
+        const pointType = ["", "Ship", "Receiver", "Transmitter (layback)", "Transmitter (LBL)", "Antenna (Vulcan)", "Selected Receiver"][seriesIdx] ?? "Unknown";
         
         // Format the values with proper display formatting
         return {
           "Time": timeValue,
-          "Longitude": xData[idx]?.toFixed(5) + "°E" || 'Unknown',
-          "Latitude": yData[idx]?.toFixed(5) + "°N" || 'Unknown',
+          [xLabel]: xData[idx] != null ? formatX(xData[idx]) : 'Unknown',
+          [yLabel]: yData[idx] != null ? formatY(yData[idx]) : 'Unknown',
           "Type": pointType
         };
       } catch (error) {
@@ -429,8 +684,8 @@ const BubblePlot: React.FC = () => {
         console.error("Error generating legend values:", error);
         return {
           "Time": '-',
-          "Longitude": '-',
-          "Latitude": '-',
+          [xLabel]: '-',
+          [yLabel]: '-',
           "Type": '-'
         };
       }
@@ -463,6 +718,8 @@ const BubblePlot: React.FC = () => {
           drag: true,
           scroll: true,
         }),
+        // Metres are drawn 1:1 so the survey geometry is not distorted
+        ...(metric ? [equalAspectPlugin()] : []),
       ],
       
       // Legend configuration
@@ -474,6 +731,10 @@ const BubblePlot: React.FC = () => {
       
       // Cursor and interaction configuration
       cursor: {
+        // Box select drags a free rectangle without zooming; the lasso draws its own outline
+        ...(selectionMode === 'box' && { drag: { x: true, y: true, setScale: false } }),
+        ...(selectionMode === 'lasso' && { drag: { x: false, y: false } }),
+
         // Custom function to determine which point is under the cursor
         dataIdx: (u: uPlot, seriesIdx: number): number | null => {
           // For the first call in a hover, detect all points (for any series)
@@ -546,6 +807,59 @@ const BubblePlot: React.FC = () => {
       
       // Lifecycle hooks
       hooks: {
+        // Trail and markers for the time hovered in any panel, positioned over the plot area
+        init: [
+          (u: uPlot) => {
+            trailCanvas = document.createElement('canvas');
+            Object.assign(trailCanvas.style, { position: 'absolute', left: '0', top: '0', width: '100%', height: '100%', pointerEvents: 'none' });
+            u.over.appendChild(trailCanvas);
+
+            cursorMarkers = cursorTracks.map(track => {
+              const marker = document.createElement('div');
+              Object.assign(marker.style, {
+                position: 'absolute',
+                left: '-6px',
+                top: '-6px',
+                width: '12px',
+                height: '12px',
+                borderRadius: '50%',
+                border: `2px solid ${track.color}`,
+                background: 'rgba(255,255,255,0.7)',
+                pointerEvents: 'none',
+                display: 'none',
+              });
+              u.over.appendChild(marker);
+              return marker;
+            });
+
+            if (selectionMode === 'lasso') setupLasso(u);
+          },
+        ],
+
+        setCursor: [publishHoveredTime],
+
+        setSelect: [handleBoxSelect],
+
+        // Record the zoom so it can be shared
+        setScale: [
+          (u: uPlot, scaleKey: string) => {
+            if (scaleKey !== 'x' && scaleKey !== 'y') return;
+            const { x, y } = u.scales;
+            if (x.min == null || x.max == null || y.min == null || y.max == null) return;
+            usePositionViewStore.getState().setExtent({ xMin: x.min, xMax: x.max, yMin: y.min, yMax: y.max });
+          },
+        ],
+
+        destroy: [() => stopLasso?.()],
+
+        // Keep the markers in place when the plot is zoomed or resized
+        draw: [
+          (u: uPlot) => {
+            const { time, source } = useCursorTimeStore.getState();
+            showCursorTime(u, time, source === PLAYBACK_SOURCE);
+          },
+        ],
+
         // Uncomment to log series selection
         // setSeries: [ (u: uPlot, seriesIdx: number) => console.log('setSeries', seriesIdx) ],
         
@@ -578,19 +892,19 @@ const BubblePlot: React.FC = () => {
       // Axis configuration
       axes: [
         {
-          label: "Longitude",  // x-axis
+          label: metric ? "Easting (m)" : "Longitude",  // x-axis
           labelSize: 20,
           size: 50,
           space: 60,
-          values: (_u, vals) => vals.map((v: number) => v?.toFixed(1) + "°E")
+          values: (_u, vals) => vals.map((v: number) => v == null ? "" : metric ? v.toFixed(0) : v.toFixed(1) + "°E")
         },
         {
-          label: "Latitude",  // y-axis
+          label: metric ? "Northing (m)" : "Latitude",  // y-axis
           labelSize: 20,
-          size: 50,
+          size: metric ? 80 : 50,
           space: 60,
           labelGap:10,
-          values: (_u, vals) => vals.map((v: number) => v?.toFixed(1) + "°N")
+          values: (_u, vals) => vals.map((v: number) => v == null ? "" : metric ? v.toFixed(0) : v.toFixed(1) + "°N")
         },
       ],
       
@@ -625,6 +939,38 @@ const BubblePlot: React.FC = () => {
           paths: drawReceiverPoints,    // Use receiver-specific drawing function
           values: legendValues,
         },
+
+        {
+          label: "Transmitter (layback)",
+          stroke: "green",
+          fill: "rgba(0,128,0,0.3)",
+          paths: drawShipPoints,    // Same point size as the ship track
+          values: legendValues,
+        },
+
+        {
+          label: "Transmitter (LBL)",
+          stroke: "darkorange",
+          fill: "rgba(255,140,0,0.3)",
+          paths: drawShipPoints,
+          values: legendValues,
+        },
+
+        {
+          label: "Antenna (Vulcan)",
+          stroke: "purple",
+          fill: "rgba(128,0,128,0.3)",
+          paths: drawShipPoints,
+          values: legendValues,
+        },
+
+        {
+          label: "Selected Receiver",
+          stroke: "black",
+          fill: "rgba(255,215,0,0.5)",
+          paths: drawSelectedPoints,
+          values: legendValues,
+        },
       ],
     };
     
@@ -635,14 +981,36 @@ const BubblePlot: React.FC = () => {
     // Using type assertion to work around complex nested array typing
     const alignedData = [
       [], // Empty array for first series
-      [shipLongitudes, shipLatitudes, shipTimestamps],
-      [rcvLongitudes, rcvLatitudes, rcvTimestampData],
+      [shipXs, shipYs, shipTimestamps],
+      [rcvXs, rcvYs, rcvTimestampData],
+      [laybackTrack.xs, laybackTrack.ys, laybackTrack.timestamps],
+      [lblTrack.xs, lblTrack.ys, lblTrack.timestamps],
+      [antennaTrack.xs, antennaTrack.ys, antennaTrack.timestamps],
+      selectedPosition ? [[selectedPosition.easting], [selectedPosition.northing], [null]] : [[], [], []],
     ];
     
+    // Zoom to keep across the rebuild, read before the new chart records its auto-range;
+    // an extent from a shared link takes precedence
+    const { pendingExtent, extent, setPendingExtent } = usePositionViewStore.getState();
+    const targetExtent = pendingExtent ?? extent;
+
     // Initialize the chart with options and data
     // Using type assertion to bypass type checking for the complex data structure
     chartInstance.current = new uPlot(opts, alignedData as unknown as uPlot.AlignedData, containerRef.current);
 
+    if (targetExtent) {
+      const chart = chartInstance.current;
+      chart.batch(() => {
+        chart.setScale('x', { min: targetExtent.xMin, max: targetExtent.xMax });
+        chart.setScale('y', { min: targetExtent.yMin, max: targetExtent.yMax });
+      });
+    }
+
+    // The link's extent is done with once the positions it refers to are drawn; UTM positions
+    // only exist after the navigation worker has derived them
+    const positionsDrawn = shipXs.some(x => !isNaN(x)) && !(metric && useShipStore.getState().deriving);
+    if (pendingExtent && positionsDrawn) setPendingExtent(null);
+
     // Make plot responsive
     const resizeObserver = new ResizeObserver(() => {
       if (containerRef.current && containerRef.current.clientWidth > 0) {
@@ -652,12 +1020,18 @@ const BubblePlot: React.FC = () => {
 
     resizeObserver.observe(containerRef.current);
 
+    // Follow the time hovered in the other panels, or the playhead
+    const unsubscribeCursor = useCursorTimeStore.subscribe((state) => {
+      if (chartInstance.current) showCursorTime(chartInstance.current, state.time, state.source === PLAYBACK_SOURCE);
+    });
+
     // ------------------------------------------------------------------------
     // Cleanup Function
     // ------------------------------------------------------------------------
     
     // Return a cleanup function that will run when the component unmounts
     return () => {
+      unsubscribeCursor();
       if (chartInstance.current) {
         chartInstance.current.destroy();
         resizeObserver.disconnect();
@@ -674,7 +1048,7 @@ const BubblePlot: React.FC = () => {
     
   }
 
-  }, [shipData, rcvData, useQuadtree, minDate, maxDate]); // Removed getFilteredShipData from dependencies
+  }, [shipColumns, rcvData, useQuadtree, startIdx, endIdx, metric, utm, selectedReceiver, selectionMode, setDateSegments]); // Removed getFilteredShipData from dependencies
   
   // ------------------------------------------------------------------------
   // Component Rendering
@@ -684,11 +1058,11 @@ const BubblePlot: React.FC = () => {
   return <div className="w-full p-4">
     {error ? (
       <div className="text-center py-8 text-red-500">{error}</div>
-    ) : shipData.length === 0 && rcvData.length === 0 ? (
+    ) : shipColumns.length === 0 && rcvData.length === 0 ? (
       <div className="text-center py-8">No data available</div>
     ) : (
       <>
-        <div className="mb-4 flex items-center">
+        <div className="mb-4 flex flex-wrap items-center gap-4">
           <label className="inline-flex items-center cursor-pointer">
             <input 
               type="checkbox" 
@@ -701,6 +1075,90 @@ const BubblePlot: React.FC = () => {
               Use Quadtree Hit Detection
             </span>
           </label>
+          <SeriesToggle label="Metric (UTM, 1:1)" checked={metric} onChange={setMetric} />
+          <label className="inline-flex items-center gap-2 text-sm">
+            Drag to
+            <select
+              value={selectionMode}
+              onChange={(e) => setSelectionMode(e.target.value as SelectionMode)}
+              className="px-2 py-1 rounded border border-gray-300"
+            >
+              {SELECTION_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </label>
+          {metric && (
+            <label className="inline-flex items-center gap-2 text-sm">
+              UTM zone
+              <select
+                value={utmZone ?? ''}
+                onChange={(e) => setUtmZone(e.target.value ? Number(e.target.value) : null)}
+                className="px-2 py-1 rounded border border-gray-300"
+              >
+                <option value="">Auto</option>
+                {Array.from({ length: 60 }, (_, i) => i + 1).map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+              {utm && <span className="text-gray-600">{utm.zone}{utm.south ? 'S' : 'N'}</span>}
+            </label>
+          )}
+          <label className="inline-flex items-center gap-2 text-sm">
+            Layback model
+            <select
+              value={laybackModel}
+              onChange={(e) => setLaybackModel(e.target.value as LaybackModel)}
+              className="px-2 py-1 rounded border border-gray-300"
+            >
+              {LAYBACK_MODELS.map(model => (
+                <option key={model.value} value={model.value}>{model.label}</option>
+              ))}
+            </select>
+          </label>
+          {laybackModel === 'ratio' && (
+            <div className="text-sm">
+              <NumberSetting
+                label="Layback / cable out"
+                value={laybackRatio}
+                step={0.05}
+                min={0}
+                max={1}
+                onApply={setLaybackRatio}
+              />
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <NumberSetting
+              label="Antenna length (m)"
+              value={antenna.lengthM}
+              min={0}
+              onApply={(lengthM) => setAntennaSettings({ lengthM })}
+            />
+            <NumberSetting
+              label="Vulcan below Tx (m)"
+              value={antenna.depthDifferenceM}
+              onApply={(depthDifferenceM) => setAntennaSettings({ depthDifferenceM })}
+            />
+          </div>
+          <label className="inline-flex items-center gap-2 text-sm">
+            Antenna heading
+            <select
+              value={antenna.headingSource}
+              onChange={(e) => setAntennaSettings({ headingSource: e.target.value as AntennaHeadingSource })}
+              className="px-2 py-1 rounded border border-gray-300"
+            >
+              <option value="vulcan">Vulcan</option>
+              <option value="atet">ATET</option>
+            </select>
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={shipColumns.length === 0}
+            className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors"
+          >
+            Export positions (CSV)
+          </button>
         </div>
         <div ref={containerRef}></div>
       </>
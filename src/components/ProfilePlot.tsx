@@ -0,0 +1,320 @@
+/**
+ * ProfilePlot Component
+ *
+ * Projects ship and receiver positions onto a profile line that starts at the
+ * trench and plots depth and velocity channels against the along-line distance.
+ *
+ * The component handles:
+ * - Editing the profile line (defaults to the receiver line)
+ * - Toggling the depth and velocity channels shown in the profile
+ * - Honouring the active date range of the ship data
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import uPlot from 'uplot';
+import 'uplot/dist/uPlot.min.css';
+import { useShipStore, useReceiverStore, ShipChannel } from '@/Store/shipStore';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
+import { useProfileStore } from '@/Store/profileStore';
+import { useNavigationSettingsStore } from '@/Store/navigationSettingsStore';
+import { wheelZoomPlugin } from '@/lib/uplot-wheel-zoom-plugin';
+import { paddedRange, decimateData, makeScatterPaths, pickValues } from '@/lib/UPlot.utils';
+import { createProfileProjector, ProfileLine } from '@/lib/geo.utils';
+import { MS_TO_KNOTS } from '@/lib/navigation';
+
+// Ship channels that can be shown in the profile; speeds go on their own axis on the right
+const PROFILE_CHANNELS: { key: ShipChannel; label: string; color: string; kind: 'depth' | 'speed' }[] = [
+  { key: 'suesiDepth', label: 'SUESI Depth (m)', color: 'blue', kind: 'depth' },
+  { key: 'atetDepth', label: 'ATET Depth (m)', color: 'orange', kind: 'depth' },
+  { key: 'vulcanDepth', label: 'Vulcan Depth (m)', color: 'purple', kind: 'depth' },
+  { key: 'bathy', label: 'Bathymetry (m)', color: 'red', kind: 'depth' },
+  { key: 'speedOverGround', label: 'Speed Over Ground', color: 'teal', kind: 'speed' },
+  { key: 'towSpeed', label: 'Tow Speed', color: 'brown', kind: 'speed' },
+];
+
+const MAX_POINTS = 20000;
+
+const ProfilePlot: React.FC = () => {
+  const { columns: shipColumns } = useShipStore();
+  const { data: rcvData } = useReceiverStore();
+  const { startIdx, endIdx } = useTimeWindowStore();
+  const { line: userLine, setLine, resetLine } = useProfileStore();
+  const speedUnit = useNavigationSettingsStore((state) => state.speedUnit);
+  const plotRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<uPlot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [visibleChannels, setVisibleChannels] = useState<ShipChannel[]>(['suesiDepth', 'bathy']);
+  const [showReceivers, setShowReceivers] = useState<boolean>(true);
+
+  // Default profile line runs from the first to the last receiver in the file
+  const receiverLine = useMemo<ProfileLine | null>(() => {
+    const sites = rcvData.filter(d => d.latitude !== undefined && d.longitude !== undefined);
+    if (sites.length < 2) return null;
+    const first = sites[0];
+    const last = sites[sites.length - 1];
+    return {
+      startLatitude: first.latitude as number,
+      startLongitude: first.longitude as number,
+      endLatitude: last.latitude as number,
+      endLongitude: last.longitude as number,
+    };
+  }, [rcvData]);
+
+  const line = userLine ?? receiverLine;
+
+  // Draft line edited in the form, applied to the store on submit
+  const [draftLine, setDraftLine] = useState<ProfileLine | null>(line);
+  useEffect(() => {
+    setDraftLine(line);
+  }, [line]);
+
+  // Main effect to create the chart
+  useEffect(() => {
+    if (!plotRef.current || !line) return;
+
+    try {
+      setError(null);
+      const project = createProfileProjector(line);
+
+      // Filter ship rows by position and date range
+      const { latitude, longitude } = shipColumns.channels;
+      const validShipIndices: number[] = [];
+      for (let i = startIdx; i < endIdx; i++) {
+        if (!isNaN(latitude[i]) && !isNaN(longitude[i])) validShipIndices.push(i);
+      }
+      const processedShipIndices = decimateData(validShipIndices, MAX_POINTS);
+
+      // Along-line distance in km for each ship point
+      const shipDistances = processedShipIndices.map(i =>
+        project(latitude[i], longitude[i]).along / 1000
+      );
+
+      const series: uPlot.Series[] = [{}];
+      const alignedData: (number | null)[][][] = [[]];
+      const [speedLabel, speedScale]: [string, number] = speedUnit === 'knots' ? ['kn', MS_TO_KNOTS] : ['m/s', 1];
+      let showSpeedAxis = false;
+
+      PROFILE_CHANNELS
+        .filter(channel => visibleChannels.includes(channel.key))
+        .forEach(channel => {
+          const isSpeed = channel.kind === 'speed';
+          const values = pickValues(shipColumns.channels[channel.key], processedShipIndices, isSpeed ? speedScale : 1);
+          series.push({
+            label: isSpeed ? `${channel.label} (${speedLabel})` : channel.label,
+            stroke: channel.color,
+            fill: channel.color,
+            scale: isSpeed ? 'speed' : 'y',
+            paths: makeScatterPaths(3),
+          });
+          showSpeedAxis ||= isSpeed;
+          alignedData.push([shipDistances, values]);
+        });
+
+      if (showReceivers) {
+        const validRcvData = rcvData.filter(d =>
+          d.latitude !== undefined && d.longitude !== undefined && d.depth !== undefined
+        );
+        series.push({
+          label: 'Receivers',
+          stroke: 'green',
+          fill: 'rgba(0,128,0,0.5)',
+          paths: makeScatterPaths(10),
+        });
+        alignedData.push([
+          validRcvData.map(d => project(d.latitude as number, d.longitude as number).along / 1000),
+          validRcvData.map(d => d.depth as number),
+        ]);
+      }
+
+      if (series.length === 1) {
+        setError("Select at least one channel to plot");
+        return;
+      }
+
+      const opts: uPlot.Options = {
+        title: "Along Profile Plot",
+        mode: 2,
+        width: plotRef.current.clientWidth || window.innerWidth - 50,
+        height: 350,
+        plugins: [wheelZoomPlugin({
+          factor: 0.9,
+          drag: true,
+          scroll: true,
+        })],
+        legend: {
+          live: false,
+        },
+        cursor: {
+          dataIdx: () => null,
+        },
+        series,
+        scales: {
+          x: {
+            time: false,
+            range: (u, min, max) => paddedRange(u, min, max, 0),
+          },
+          y: {
+            dir: -1,
+            range: (u, min, max) => paddedRange(u, min, max, 0),
+          },
+          speed: {
+            range: (u, min, max) => paddedRange(u, min, max, 0),
+          },
+        },
+        axes: [
+          {
+            label: "Distance to Trench (km)",
+            labelSize: 20,
+          },
+          {
+            label: "Depth (m)",
+            labelSize: 20,
+            size: 60,
+          },
+          ...(showSpeedAxis ? [{
+            scale: 'speed',
+            side: 1,
+            label: `Speed (${speedLabel})`,
+            labelSize: 20,
+            size: 60,
+            grid: { show: false },
+          }] : []),
+        ],
+      };
+
+      // Clean up any existing chart content
+      if (plotRef.current.firstChild) {
+        plotRef.current.innerHTML = '';
+      }
+
+      chartRef.current = new uPlot(opts, alignedData as unknown as uPlot.AlignedData, plotRef.current);
+
+      // Make plot responsive
+      const resizeObserver = new ResizeObserver(() => {
+        if (plotRef.current && plotRef.current.clientWidth > 0 && chartRef.current) {
+          chartRef.current.setSize({
+            width: plotRef.current.clientWidth,
+            height: chartRef.current.height
+          });
+        }
+      });
+
+      resizeObserver.observe(plotRef.current);
+
+      return () => {
+        if (chartRef.current) {
+          chartRef.current.destroy();
+          chartRef.current = null;
+        }
+        resizeObserver.disconnect();
+      };
+    } catch (err) {
+      console.error("Error creating profile chart:", err);
+      setError(`Error creating chart: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [shipColumns, rcvData, startIdx, endIdx, line, visibleChannels, showReceivers, speedUnit]);
+
+  const toggleChannel = (key: ShipChannel, checked: boolean) => {
+    setVisibleChannels(prev => checked ? [...prev, key] : prev.filter(k => k !== key));
+  };
+
+  const updateDraft = (field: keyof ProfileLine, value: string) => {
+    if (!draftLine) return;
+    setDraftLine({ ...draftLine, [field]: parseFloat(value) });
+  };
+
+  const isDraftValid = draftLine !== null && Object.values(draftLine).every(v => Number.isFinite(v));
+
+  return (
+    <div className="w-full p-4">
+      {shipColumns.length === 0 && rcvData.length === 0 ? (
+        <div className="text-center py-8">No data available</div>
+      ) : !line ? (
+        <div className="text-center py-8">At least two receivers are required to define the default profile line</div>
+      ) : (
+        <>
+          <div className="mb-4 flex flex-wrap items-center gap-4 text-sm">
+            {PROFILE_CHANNELS.map(channel => (
+              <label key={channel.key} className="inline-flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={visibleChannels.includes(channel.key)}
+                  onChange={(e) => toggleChannel(channel.key, e.target.checked)}
+                />
+                <span style={{ color: channel.color }}>{channel.label}</span>
+              </label>
+            ))}
+            <label className="inline-flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showReceivers}
+                onChange={(e) => setShowReceivers(e.target.checked)}
+              />
+              <span className="text-green-700">Receivers</span>
+            </label>
+          </div>
+
+          {draftLine && (
+            <form
+              className="mb-4 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (isDraftValid) setLine(draftLine);
+              }}
+            >
+              {([
+                ['startLongitude', 'Trench Lon (°E)'],
+                ['startLatitude', 'Trench Lat (°N)'],
+                ['endLongitude', 'End Lon (°E)'],
+                ['endLatitude', 'End Lat (°N)'],
+              ] as [keyof ProfileLine, string][]).map(([field, label]) => (
+                <label key={field} className="flex flex-col">
+                  <span className="font-medium text-gray-800">{label}</span>
+                  <input
+                    type="number"
+                    step="any"
+                    value={Number.isFinite(draftLine[field]) ? draftLine[field] : ''}
+                    onChange={(e) => updateDraft(field, e.target.value)}
+                    className="font-mono px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+              ))}
+              <div className="col-span-2 md:col-span-4 flex gap-2">
+                <button
+                  type="submit"
+                  disabled={!isDraftValid}
+                  className="px-3 py-1.5 bg-blue-600 text-black rounded hover:bg-blue-700 text-sm font-medium transition-colors"
+                >
+                  Apply Line
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setLine({
+                    startLatitude: line.endLatitude,
+                    startLongitude: line.endLongitude,
+                    endLatitude: line.startLatitude,
+                    endLongitude: line.startLongitude,
+                  })}
+                  className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors"
+                >
+                  Reverse
+                </button>
+                <button
+                  type="button"
+                  onClick={resetLine}
+                  className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors"
+                >
+                  Use Receiver Line
+                </button>
+              </div>
+            </form>
+          )}
+
+          {error && <div className="text-center py-8 text-red-500">{error}</div>}
+          <div ref={plotRef} className={error ? 'hidden' : ''}></div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePlot;
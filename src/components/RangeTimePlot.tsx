@@ -0,0 +1,311 @@
+/**
+ * RangeTimePlot Component
+ *
+ * Raw acoustic slant ranges to the port and starboard transponders and to a ranged receiver,
+ * so the ranges can be checked before the navigation solution is trusted.
+ *
+ * The component handles:
+ * - Converting travel times to slant ranges with the configured sound speed
+ * - Flagging outliers against a running median (Hampel filter)
+ * - Per-series visibility toggles that are saved with the other plot settings
+ */
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import uPlot from 'uplot';
+import 'uplot/dist/uPlot.min.css';
+import { useShipStore, ShipChannel } from '@/Store/shipStore';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
+import { usePlotSettingsStore } from '@/Store/plotSettingsStore';
+import { useNavigationSettingsStore } from '@/Store/navigationSettingsStore';
+import { wheelZoomPlugin } from '@/lib/uplot-wheel-zoom-plugin';
+import { lodPlugin, findVisibleWindow } from '@/lib/uplot-lod-plugin';
+import { cursorTimePlugin, TIME_SYNC_KEY } from '@/lib/uplot-cursor-time-plugin';
+import { rangeZoomPlugin } from '@/lib/uplot-range-zoom-plugin';
+import { paddedRange, formatTime, pickTimestamps, pickValues, decimateIndices, DecimationStrategy } from '@/lib/UPlot.utils';
+import { hampelOutliers } from '@/lib/outliers';
+import DecimationSelect from '@/components/DecimationSelect';
+import SeriesToggle from '@/components/SeriesToggle';
+import NumberSetting from '@/components/NumberSetting';
+
+const MAX_POINTS = 20000;
+const PLOT_ID = 'range';
+
+// Deviations smaller than this are never flagged, in metres
+const MIN_OUTLIER_DEVIATION_M = 5;
+
+// Slant range channels, in chart order
+const RANGE_SERIES: { key: ShipChannel; label: string; color: string }[] = [
+  { key: 'slantRangePort', label: 'Port Range (m)', color: 'red' },
+  { key: 'slantRangeStarboard', label: 'Starboard Range (m)', color: 'green' },
+  { key: 'slantRangeReceiver', label: 'Receiver Range (m)', color: 'blue' },
+];
+
+// Saved visibility of a range, shown by default
+const isSeriesVisible = (visibility: Record<string, boolean> | undefined, key: ShipChannel): boolean => {
+  return visibility?.[key] ?? true;
+};
+
+// Saved visibility read from the store, for chart hooks and callbacks that must not rebuild the chart
+const isSeriesVisibleNow = (key: ShipChannel): boolean => {
+  return isSeriesVisible(usePlotSettingsStore.getState().seriesVisibility[PLOT_ID], key);
+};
+
+const RangeTimePlot: React.FC = () => {
+  const { columns } = useShipStore();
+  const { startIdx, endIdx } = useTimeWindowStore();
+  const visibility = usePlotSettingsStore((state) => state.seriesVisibility[PLOT_ID]);
+  const setSeriesVisible = usePlotSettingsStore((state) => state.setSeriesVisible);
+  const { lbl, setLblSettings } = useNavigationSettingsStore();
+  const plotRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<uPlot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<DecimationStrategy>('minmax');
+  const [outlierWindowS, setOutlierWindowS] = useState<number>(60);
+  const [outlierThreshold, setOutlierThreshold] = useState<number>(3);
+
+  // Outlier flags of every range over the whole dataset
+  const outlierFlags = useMemo(() => RANGE_SERIES.map(series =>
+    hampelOutliers(columns.time, columns.channels[series.key], outlierWindowS * 1000, outlierThreshold, MIN_OUTLIER_DEVIATION_M)
+  ), [columns, outlierWindowS, outlierThreshold]);
+
+  const outlierCount = useMemo(() => {
+    let count = 0;
+    outlierFlags.forEach(flags => {
+      for (let i = startIdx; i < endIdx; i++) count += flags[i];
+    });
+    return count;
+  }, [outlierFlags, startIdx, endIdx]);
+
+  // Row indices within the date range (or a visible part of it) that have at least one range;
+  // flagged rows are always kept so decimation cannot hide an outlier
+  const getFilteredIndices = useCallback((from: number = startIdx, to: number = endIdx) => {
+    const channels = RANGE_SERIES.map(series => columns.channels[series.key]);
+
+    const indices: number[] = [];
+    const flagged: number[] = [];
+    for (let i = from; i < to; i++) {
+      if (channels.some(values => !isNaN(values[i]))) indices.push(i);
+      if (outlierFlags.some(flags => flags[i])) flagged.push(i);
+    }
+
+    const decimated = decimateIndices(columns.time, channels, indices, MAX_POINTS, strategy);
+    if (decimated === indices || flagged.length === 0) return decimated;
+    return Array.from(new Set([...decimated, ...flagged])).sort((x, y) => x - y);
+  }, [columns, startIdx, endIdx, strategy, outlierFlags]);
+
+  // Chart data for the given rows: time, every range, then the outliers of every range
+  const buildChartData = useCallback((indices: number[]): uPlot.AlignedData => {
+    const ranges = RANGE_SERIES.map(series => pickValues(columns.channels[series.key], indices));
+    const outliers = RANGE_SERIES.map((series, s) => {
+      const values = columns.channels[series.key];
+      return indices.map(i => outlierFlags[s][i] ? values[i] : null);
+    });
+
+    return [pickTimestamps(columns.time, indices), ...ranges, ...outliers];
+  }, [columns, outlierFlags]);
+
+  // Latest level-of-detail query, called by the LOD plugin when the chart is zoomed
+  const lodQueryRef = useRef<(min: number, max: number) => uPlot.AlignedData | null>(() => null);
+  useEffect(() => {
+    lodQueryRef.current = (min, max) => {
+      const [from, to] = findVisibleWindow(columns.time, startIdx, endIdx, min, max);
+      const indices = getFilteredIndices(from, to);
+      return indices.length ? buildChartData(indices) : null;
+    };
+  }, [columns, startIdx, endIdx, getFilteredIndices, buildChartData]);
+
+  // Apply visibility changes to the existing chart without rebuilding it; outliers follow their range
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) return;
+
+    RANGE_SERIES.forEach((series, i) => {
+      const show = isSeriesVisible(visibility, series.key);
+      [i + 1, i + 1 + RANGE_SERIES.length].forEach(seriesIdx => {
+        if (chart.series[seriesIdx].show !== show) {
+          chart.setSeries(seriesIdx, { show });
+        }
+      });
+    });
+  }, [visibility]);
+
+  // Main effect to create the chart
+  useEffect(() => {
+    if (!plotRef.current || !columns.length) return;
+
+    try {
+      setError(null);
+
+      const filteredIndices = getFilteredIndices();
+
+      if (filteredIndices.length === 0) {
+        setError("No acoustic ranges or travel times found in the selected range");
+        return;
+      }
+
+      const chartData = buildChartData(filteredIndices);
+
+      const opts: uPlot.Options = {
+        mode: 1,
+        title: "",
+        width: plotRef.current.clientWidth || window.innerWidth - 50,
+        height: 300,
+        plugins: [
+          wheelZoomPlugin({
+            factor: 0.9,
+            drag: true,
+            scroll: true,
+          }),
+          lodPlugin({ getData: (min, max) => lodQueryRef.current(min, max) }),
+          cursorTimePlugin(),
+          rangeZoomPlugin(),
+        ],
+        cursor: {
+          drag: { x: true, y: true, uni: 1, dist: 30 },
+          sync: {
+            key: TIME_SYNC_KEY,
+            scales: ["x", null],
+          }
+        },
+        hooks: {
+          // Keep the saved visibility in step with legend clicks
+          setSeries: [
+            (_u, seriesIdx, seriesOpts) => {
+              if (
+                seriesIdx && seriesIdx <= RANGE_SERIES.length && seriesOpts.show !== undefined &&
+                seriesOpts.show !== isSeriesVisibleNow(RANGE_SERIES[seriesIdx - 1].key)
+              ) {
+                usePlotSettingsStore.getState().setSeriesVisible(PLOT_ID, RANGE_SERIES[seriesIdx - 1].key, seriesOpts.show);
+              }
+            }
+          ]
+        },
+        series: [
+          {
+            label: "Time",
+            value: (_u, v) => formatTime(v*1000),
+          },
+          ...RANGE_SERIES.map(range => ({
+            label: range.label,
+            stroke: range.color,
+            show: isSeriesVisibleNow(range.key),
+          })),
+          // Outliers are drawn as points only, outlined in black over the range colour
+          ...RANGE_SERIES.map(range => ({
+            label: `${range.label.replace(' (m)', '')} Outliers`,
+            stroke: 'black',
+            show: isSeriesVisibleNow(range.key),
+            paths: () => null,
+            points: { show: true, size: 7, width: 1.5, fill: range.color },
+          })),
+        ],
+        scales: {
+          x: {
+            time: true,
+          },
+          y: {
+            range: (u, min, max) => paddedRange(u, min, max, 0),
+          },
+        },
+        axes: [
+          {values: [
+            // tick incr  default       year                        month   day                  hour   min               sec  mode
+            [3600*24*365,"{YYYY}",      null,                       null, null,                  null, null,              null, 1],
+            [3600*24*28, "{MMM}",       "\n{YYYY}",                 null, null,                  null, null,              null, 1],
+            [3600*24,    "{D}/{M}",     "\n{YYYY}",                 null, null,                  null, null,              null, 1],
+            [3600,       "{HH}",        "\n{D}/{M}/{YY}",           null, "\n{D}/{M}",           null, null,              null, 1],
+            [60,         "{HH}:{mm}",   "\n{D}/{M}/{YY}",           null, "\n{D}/{M}",           null, null,              null, 1],
+            [1,          ":{ss}",       "\n{D}/{M}/{YY} {HH}:{mm}", null, "\n{D}/{M} {HH}:{mm}", null, "\n{HH}:{mm}",     null, 1],
+            [0.001,      ":{ss}.{fff}", "\n{D}/{M}/{YY} {HH}:{mm}", null, "\n{D}/{M} {HH}:{mm}", null, "\n{HH}:{mm}",     null, 1],
+                      ]},
+          {
+            label: "Slant Range (m)",
+            size: 60,
+          },
+        ],
+        legend: {
+          show: true
+        }
+      };
+
+      // Clean up any existing chart content
+      if (plotRef.current.firstChild) {
+        plotRef.current.innerHTML = '';
+      }
+
+      chartRef.current = new uPlot(opts, chartData, plotRef.current);
+
+      // Make plot responsive
+      const resizeObserver = new ResizeObserver(() => {
+        if (plotRef.current && plotRef.current.clientWidth > 0 && chartRef.current) {
+          chartRef.current.setSize({
+            width: plotRef.current.clientWidth,
+            height: chartRef.current.height
+          });
+        }
+      });
+
+      resizeObserver.observe(plotRef.current);
+
+      return () => {
+        if (chartRef.current) {
+          chartRef.current.destroy();
+          chartRef.current = null;
+        }
+        resizeObserver.disconnect();
+      };
+    } catch (err) {
+      console.error("Error creating range chart:", err);
+      setError(`Error creating chart: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [columns, startIdx, endIdx, getFilteredIndices, buildChartData]);
+
+  return (
+    <div className="w-full p-4">
+      {columns.length === 0 ? (
+        <div className="text-center py-8">No data available</div>
+      ) : (
+        <>
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap items-center gap-4">
+              {RANGE_SERIES.map(series => (
+                <SeriesToggle
+                  key={series.key}
+                  label={series.label}
+                  checked={isSeriesVisible(visibility, series.key)}
+                  onChange={(checked) => setSeriesVisible(PLOT_ID, series.key, checked)}
+                />
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <NumberSetting
+                label="Sound speed (m/s)"
+                value={lbl.soundSpeed}
+                min={1}
+                onApply={(soundSpeed) => setLblSettings({ soundSpeed })}
+              />
+              <NumberSetting
+                label="Outlier window (s)"
+                value={outlierWindowS}
+                min={1}
+                onApply={setOutlierWindowS}
+              />
+              <NumberSetting
+                label="Threshold (MAD)"
+                value={outlierThreshold}
+                step={0.5}
+                min={1}
+                onApply={setOutlierThreshold}
+              />
+              <span className="text-gray-600">{outlierCount} outliers</span>
+              <DecimationSelect value={strategy} onChange={setStrategy} />
+            </div>
+          </div>
+          {error && <div className="text-center py-8 text-red-500">{error}</div>}
+          <div ref={plotRef} className={error ? 'hidden' : ''}></div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RangeTimePlot;
@@ -0,0 +1,252 @@
+/**
+ * ReceiverQcPanel Component
+ *
+ * Deployment QC of the receivers: how far each site settled from where it was dropped.
+ *
+ * The component handles:
+ * - Bars of the relocated minus deployed depth per site
+ * - Drift vectors from the drop point to the relocated position, when both are supplied
+ * - Flagging sites beyond the depth and drift tolerances
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import uPlot from 'uplot';
+import 'uplot/dist/uPlot.min.css';
+import { useReceiverStore } from '@/Store/shipStore';
+import { computeReceiverQc, ReceiverQcTolerances } from '@/lib/receiverQc';
+import { makeScatterPaths } from '@/lib/UPlot.utils';
+import { equalAspectPlugin } from '@/lib/uplot-equal-aspect-plugin';
+import NumberSetting from '@/components/NumberSetting';
+
+const OK_COLOR = 'rgba(0,0,255,0.6)';
+const FLAG_COLOR = 'rgba(255,0,0,0.7)';
+
+/**
+ * Draws every drift as an arrow from the origin (the drop point) and the drift tolerance as a dashed circle
+ */
+const drawDriftArrows = (toleranceM: number) => (u: uPlot) => {
+  const xs = u.data[1][0] as unknown as number[];
+  const ys = u.data[1][1] as unknown as number[];
+  const flags = u.data[1][2] as unknown as boolean[];
+  const ctx = u.ctx;
+  const x0 = u.valToPos(0, 'x', true);
+  const y0 = u.valToPos(0, 'y', true);
+  const head = 8 * uPlot.pxRatio;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(u.bbox.left, u.bbox.top, u.bbox.width, u.bbox.height);
+  ctx.clip();
+  ctx.lineWidth = 1.5 * uPlot.pxRatio;
+
+  for (let i = 0; i < xs.length; i++) {
+    const x1 = u.valToPos(xs[i], 'x', true);
+    const y1 = u.valToPos(ys[i], 'y', true);
+    const angle = Math.atan2(y1 - y0, x1 - x0);
+    ctx.strokeStyle = flags[i] ? FLAG_COLOR : OK_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(x0, y0);
+    ctx.lineTo(x1, y1);
+    ctx.lineTo(x1 - head * Math.cos(angle - Math.PI / 6), y1 - head * Math.sin(angle - Math.PI / 6));
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x1 - head * Math.cos(angle + Math.PI / 6), y1 - head * Math.sin(angle + Math.PI / 6));
+    ctx.stroke();
+  }
+
+  // Tolerance circle
+  const radius = Math.abs(u.valToPos(toleranceM, 'x', true) - x0);
+  ctx.strokeStyle = 'gray';
+  ctx.setLineDash([4 * uPlot.pxRatio, 4 * uPlot.pxRatio]);
+  ctx.beginPath();
+  ctx.arc(x0, y0, radius, 0, 2 * Math.PI);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const ReceiverQcPanel: React.FC = () => {
+  const { data: rcvData } = useReceiverStore();
+  const depthRef = useRef<HTMLDivElement>(null);
+  const driftRef = useRef<HTMLDivElement>(null);
+  const [tolerances, setTolerances] = useState<ReceiverQcTolerances>({ depthM: 50, driftM: 200 });
+
+  const qc = useMemo(() => computeReceiverQc(rcvData, tolerances), [rcvData, tolerances]);
+  const withDepth = useMemo(() => qc.filter(site => !isNaN(site.depthDifference)), [qc]);
+  const withDrift = useMemo(() => qc.filter(site => !isNaN(site.drift)), [qc]);
+  const flagged = qc.filter(site => site.depthFlag || site.driftFlag);
+
+  // Depth-difference bars, split into two series so flagged sites stand out
+  useEffect(() => {
+    if (!depthRef.current || withDepth.length === 0) return;
+
+    const names = withDepth.map(site => site.name);
+    const chartData: uPlot.AlignedData = [
+      withDepth.map((_, i) => i),
+      withDepth.map(site => site.depthFlag ? null : site.depthDifference),
+      withDepth.map(site => site.depthFlag ? site.depthDifference : null),
+    ];
+    const bars = uPlot.paths.bars!({ size: [0.7, 40] });
+
+    const opts: uPlot.Options = {
+      width: depthRef.current.clientWidth || window.innerWidth - 50,
+      height: 250,
+      cursor: { drag: { x: false, y: false } },
+      series: [
+        {
+          label: "Site",
+          value: (_u, v) => v == null ? '-' : names[v] ?? '-',
+        },
+        { label: "Δ Depth (m)", fill: OK_COLOR, stroke: OK_COLOR, paths: bars, points: { show: false } },
+        { label: "Δ Depth beyond tolerance (m)", fill: FLAG_COLOR, stroke: FLAG_COLOR, paths: bars, points: { show: false } },
+      ],
+      scales: {
+        x: {
+          time: false,
+          range: [-0.5, withDepth.length - 0.5],
+        },
+      },
+      axes: [
+        {
+          label: "Site",
+          space: 30,
+          incrs: [1, 2, 5, 10, 20, 50],
+          values: (_u, vals) => vals.map(v => Number.isInteger(v) ? names[v] ?? '' : ''),
+        },
+        {
+          label: "Relocated − Deployed Depth (m)",
+          size: 60,
+        },
+      ],
+    };
+
+    depthRef.current.innerHTML = '';
+    const chart = new uPlot(opts, chartData, depthRef.current);
+
+    const resizeObserver = new ResizeObserver(() => {
+      if (depthRef.current && depthRef.current.clientWidth > 0) {
+        chart.setSize({ width: depthRef.current.clientWidth, height: chart.height });
+      }
+    });
+    resizeObserver.observe(depthRef.current);
+
+    return () => {
+      chart.destroy();
+      resizeObserver.disconnect();
+    };
+  }, [withDepth]);
+
+  // Drift vectors from the drop point, all drawn from a common origin
+  useEffect(() => {
+    if (!driftRef.current || withDrift.length === 0) return;
+
+    const extent = Math.max(tolerances.driftM, ...withDrift.map(site => site.drift)) * 1.15;
+    const chartData = [
+      [],
+      [withDrift.map(site => site.driftEast), withDrift.map(site => site.driftNorth), withDrift.map(site => site.driftFlag)],
+    ];
+
+    const opts: uPlot.Options = {
+      mode: 2,
+      width: driftRef.current.clientWidth || window.innerWidth - 50,
+      height: 350,
+      plugins: [equalAspectPlugin()],
+      cursor: { drag: { x: false, y: false } },
+      legend: { show: false },
+      hooks: {
+        draw: [drawDriftArrows(tolerances.driftM)],
+      },
+      series: [
+        {},
+        { label: "Relocated position", stroke: 'black', fill: 'black', paths: makeScatterPaths(4) },
+      ],
+      scales: {
+        x: { time: false, range: [-extent, extent] },
+        y: { range: [-extent, extent] },
+      },
+      axes: [
+        { label: "Drift East (m)" },
+        { label: "Drift North (m)", size: 60 },
+      ],
+    };
+
+    driftRef.current.innerHTML = '';
+    const chart = new uPlot(opts, chartData as unknown as uPlot.AlignedData, driftRef.current);
+
+    const resizeObserver = new ResizeObserver(() => {
+      if (driftRef.current && driftRef.current.clientWidth > 0) {
+        chart.setSize({ width: driftRef.current.clientWidth, height: chart.height });
+      }
+    });
+    resizeObserver.observe(driftRef.current);
+
+    return () => {
+      chart.destroy();
+      resizeObserver.disconnect();
+    };
+  }, [withDrift, tolerances.driftM]);
+
+  if (rcvData.length === 0) {
+    return <div className="text-center py-8">No receiver data available</div>;
+  }
+
+  return (
+    <div className="w-full">
+      <div className="mb-4 flex flex-wrap items-center gap-4 text-sm">
+        <NumberSetting
+          label="Depth tolerance (m)"
+          value={tolerances.depthM}
+          min={0}
+          onApply={(depthM) => setTolerances({ ...tolerances, depthM })}
+        />
+        <NumberSetting
+          label="Drift tolerance (m)"
+          value={tolerances.driftM}
+          min={0}
+          onApply={(driftM) => setTolerances({ ...tolerances, driftM })}
+        />
+        <span className={flagged.length ? 'text-red-600 font-medium' : 'text-gray-600'}>
+          {flagged.length} of {qc.length} sites beyond tolerance
+        </span>
+      </div>
+
+      <h3 className="font-medium mb-1">Depth difference</h3>
+      {withDepth.length === 0
+        ? <div className="text-center py-4 text-gray-600">No sites with both a deployed and a relocated depth</div>
+        : <div ref={depthRef}></div>}
+
+      <h3 className="font-medium mt-4 mb-1">Drift from drop point</h3>
+      {withDrift.length === 0
+        ? <div className="text-center py-4 text-gray-600">No sites with both a drop point and a relocated position</div>
+        : <div ref={driftRef}></div>}
+
+      {flagged.length > 0 && (
+        <div className="mt-4 max-h-64 overflow-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="sticky top-0 bg-white border-b border-gray-300">
+              <tr>
+                <th className="px-2 py-1">Site</th>
+                <th className="px-2 py-1">Δ Depth</th>
+                <th className="px-2 py-1">Drift</th>
+                <th className="px-2 py-1">Drift bearing</th>
+              </tr>
+            </thead>
+            <tbody>
+              {flagged.map(site => (
+                <tr key={site.index} className="border-b border-gray-100">
+                  <td className="px-2 py-1 font-medium">{site.name}</td>
+                  <td className={`px-2 py-1 ${site.depthFlag ? 'text-red-600 font-medium' : ''}`}>
+                    {isNaN(site.depthDifference) ? '-' : `${site.depthDifference.toFixed(1)} m`}
+                  </td>
+                  <td className={`px-2 py-1 ${site.driftFlag ? 'text-red-600 font-medium' : ''}`}>
+                    {isNaN(site.drift) ? '-' : `${site.drift.toFixed(0)} m`}
+                  </td>
+                  <td className="px-2 py-1">{isNaN(site.drift) ? '-' : `${site.driftBearing.toFixed(0)}°`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReceiverQcPanel;
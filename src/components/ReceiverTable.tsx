@@ -0,0 +1,144 @@
+/**
+ * ReceiverTable Component
+ *
+ * Lists every receiver with the closest approach of the tow and the time the tow spent near it.
+ *
+ * The component handles:
+ * - Measuring offsets from the ship or from the transmitter estimate
+ * - Editable offset bands for the time-near-receiver columns
+ * - Jumping the date range to a pass and highlighting the receiver in the position plot
+ */
+import React, { useMemo, useState } from 'react';
+import { useShipStore, useReceiverStore } from '@/Store/shipStore';
+import { useDateRangeStore } from '@/Store/dateRangeStore';
+import { useReceiverSelectionStore } from '@/Store/receiverSelectionStore';
+import { findReceiverPass, getTrack, ReceiverPass, TrackSource } from '@/lib/receiverPasses';
+import { formatTime } from '@/lib/UPlot.utils';
+
+// Shortest window shown around a pass, on each side
+const MIN_PASS_PADDING_MS = 5 * 60 * 1000;
+
+const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.round(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`;
+};
+
+const formatOffset = (metres: number): string =>
+  metres >= 1000 ? `${(metres / 1000).toFixed(2)} km` : `${metres.toFixed(0)} m`;
+
+// Parses a comma-separated list of kilometres into ascending metre bands
+const parseBands = (text: string): number[] | null => {
+  const bands = text.split(',').map(part => parseFloat(part) * 1000);
+  if (bands.length === 0 || bands.some(band => isNaN(band) || band <= 0)) return null;
+  return bands.sort((a, b) => a - b);
+};
+
+const ReceiverTable: React.FC = () => {
+  const { columns } = useShipStore();
+  const { data: rcvData } = useReceiverStore();
+  const setDateRange = useDateRangeStore((state) => state.setDateRange);
+  const { selectedIndex, setSelectedIndex } = useReceiverSelectionStore();
+  const [trackSource, setTrackSource] = useState<TrackSource>('ship');
+  const [bands, setBands] = useState<number[]>([1000, 2000, 5000]);
+  const [draftBands, setDraftBands] = useState<string>('1, 2, 5');
+
+  const applyBands = () => {
+    const parsed = parseBands(draftBands);
+    if (parsed) {
+      setBands(parsed);
+    }
+    setDraftBands((parsed ?? bands).map(band => band / 1000).join(', '));
+  };
+
+  const track = useMemo(() => getTrack(columns, trackSource), [columns, trackSource]);
+
+  // Pass of the tow for every receiver with a position, in order of the closest approach
+  const rows = useMemo(() => {
+    const passes: { index: number; name: string; pass: ReceiverPass | null }[] = [];
+    rcvData.forEach((receiver, index) => {
+      if (receiver.latitude === undefined || receiver.longitude === undefined) return;
+      passes.push({
+        index,
+        name: receiver.siteName ?? `#${index + 1}`,
+        pass: findReceiverPass(receiver.latitude, receiver.longitude, columns.time, track.latitude, track.longitude, bands),
+      });
+    });
+    return passes.sort((a, b) => (a.pass?.closestTime ?? Infinity) - (b.pass?.closestTime ?? Infinity));
+  }, [rcvData, columns, track, bands]);
+
+  // Narrow the date range to a pass and highlight its receiver
+  const handleSelect = (index: number, pass: ReceiverPass | null) => {
+    setSelectedIndex(index === selectedIndex ? null : index);
+    if (!pass || index === selectedIndex) return;
+
+    const padding = Math.max(MIN_PASS_PADDING_MS, (pass.passEnd - pass.passStart) / 4);
+    setDateRange(pass.passStart - padding, pass.passEnd + padding);
+  };
+
+  if (rcvData.length === 0) {
+    return <div className="text-center py-8">No receiver data available</div>;
+  }
+
+  return (
+    <div className="w-full">
+      <div className="mb-4 flex flex-wrap items-center gap-4 text-sm">
+        <label className="inline-flex items-center gap-2">
+          Offset from
+          <select
+            value={trackSource}
+            onChange={(e) => setTrackSource(e.target.value as TrackSource)}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="ship">Ship</option>
+            <option value="transmitter">Transmitter estimate</option>
+          </select>
+        </label>
+        <label className="inline-flex items-center gap-2">
+          Offset bands (km)
+          <input
+            type="text"
+            value={draftBands}
+            onChange={(e) => setDraftBands(e.target.value)}
+            onBlur={applyBands}
+            onKeyDown={(e) => { if (e.key === 'Enter') applyBands(); }}
+            className="w-32 px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+      </div>
+      <div className="max-h-96 overflow-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="sticky top-0 bg-white border-b border-gray-300">
+            <tr>
+              <th className="px-2 py-1">Site</th>
+              <th className="px-2 py-1">Min offset</th>
+              <th className="px-2 py-1">Closest approach</th>
+              {bands.map(band => (
+                <th key={band} className="px-2 py-1">≤ {formatOffset(band)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ index, name, pass }) => (
+              <tr
+                key={index}
+                onClick={() => handleSelect(index, pass)}
+                className={`cursor-pointer border-b border-gray-100 hover:bg-gray-100 ${index === selectedIndex ? 'bg-yellow-100' : ''}`}
+              >
+                <td className="px-2 py-1 font-medium">{name}</td>
+                <td className="px-2 py-1">{pass ? formatOffset(pass.minOffset) : '-'}</td>
+                <td className="px-2 py-1 font-mono">{pass ? formatTime(pass.closestTime) : '-'}</td>
+                {bands.map((band, b) => (
+                  <td key={band} className="px-2 py-1">{pass ? formatDuration(pass.timeInBands[b]) : '-'}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiverTable;
@@ -0,0 +1,82 @@
+/**
+ * VelocityPanel Component
+ *
+ * Time series of the velocity channels derived from the ship positions:
+ * speed over ground, tow speed, course over ground and along-track distance.
+ *
+ * The component handles:
+ * - Choosing the derived channel to plot
+ * - Switching speeds between knots and m/s
+ * - Editing the smoothing window the channels are computed with
+ */
+import React, { useState } from 'react';
+import { ShipChannel } from '@/Store/shipStore';
+import { useNavigationSettingsStore } from '@/Store/navigationSettingsStore';
+import { MS_TO_KNOTS, SpeedUnit } from '@/lib/navigation';
+import { TimeSeriesPlot } from '@/components/timeSeriesPlot';
+import NumberSetting from '@/components/NumberSetting';
+
+// Derived channels that can be plotted, with the kind of quantity they hold
+const VELOCITY_CHANNELS: { key: ShipChannel; label: string; kind: 'speed' | 'angle' | 'distance'; color: string }[] = [
+  { key: 'speedOverGround', label: 'Speed Over Ground', kind: 'speed', color: 'blue' },
+  { key: 'towSpeed', label: 'Tow Speed', kind: 'speed', color: 'green' },
+  { key: 'courseOverGround', label: 'Course Over Ground', kind: 'angle', color: 'purple' },
+  { key: 'alongTrackDistance', label: 'Along-Track Distance', kind: 'distance', color: 'black' },
+];
+
+const VelocityPanel: React.FC = () => {
+  const { smoothingWindowS, speedUnit, setSmoothingWindow, setSpeedUnit } = useNavigationSettingsStore();
+  const [channelKey, setChannelKey] = useState<ShipChannel>('speedOverGround');
+
+  const channel = VELOCITY_CHANNELS.find(c => c.key === channelKey) ?? VELOCITY_CHANNELS[0];
+
+  // Unit label and conversion factor from the stored SI value
+  const [unitLabel, valueScale]: [string, number] = channel.kind === 'speed'
+    ? (speedUnit === 'knots' ? ['kn', MS_TO_KNOTS] : ['m/s', 1])
+    : channel.kind === 'distance'
+      ? ['km', 0.001]
+      : ['°', 1];
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-wrap items-center gap-4 text-sm px-4">
+        <select
+          value={channelKey}
+          onChange={(e) => setChannelKey(e.target.value as ShipChannel)}
+          className="px-2 py-1 rounded border border-gray-300"
+        >
+          {VELOCITY_CHANNELS.map(c => (
+            <option key={c.key} value={c.key}>{c.label}</option>
+          ))}
+        </select>
+        <label className="inline-flex items-center gap-2">
+          Speed unit
+          <select
+            value={speedUnit}
+            onChange={(e) => setSpeedUnit(e.target.value as SpeedUnit)}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="knots">knots</option>
+            <option value="m/s">m/s</option>
+          </select>
+        </label>
+        <NumberSetting
+          label="Smoothing window (s)"
+          value={smoothingWindowS}
+          min={0}
+          onApply={setSmoothingWindow}
+        />
+      </div>
+      <TimeSeriesPlot
+        dataColumn={channel.key}
+        title=""
+        color={channel.color}
+        seriesLabel={`${channel.label} (${unitLabel})`}
+        valueScale={valueScale}
+        wrapAngles={channel.kind === 'angle'}
+      />
+    </div>
+  );
+};
+
+export default VelocityPanel;
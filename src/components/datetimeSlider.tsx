@@ -3,6 +3,8 @@ import { Slider } from "@/components/ui/slider";
 import { useShipStore } from "@/Store/shipStore";
 import { formatTime } from "@/lib/UPlot.utils";
 import { useDateRangeStore } from "@/Store/dateRangeStore";
+import { usePlotSettingsStore } from "@/Store/plotSettingsStore";
+import SeriesToggle from "@/components/SeriesToggle";
 
 interface RadixDatetimeSliderProps {
   className?: string;
@@ -10,10 +12,12 @@ interface RadixDatetimeSliderProps {
 
 const RadixDatetimeSlider: React.FC<RadixDatetimeSliderProps> = ({ className = '' }) => {
   // Get data from stores
-  const shipData = useShipStore((state) => state.data);
+  const shipTime = useShipStore((state) => state.columns.time);
   
   // Get date range state
-  const { minDate, maxDate, setDateRange } = useDateRangeStore();
+  const { minDate, maxDate, setDateRange, segments, setDateSegments } = useDateRangeStore();
+  const { history, historyIndex, goBack, goForward } = useDateRangeStore();
+  const { zoomSetsRange, setZoomSetsRange } = usePlotSettingsStore();
   
   // State for slider values (as percentages, 0-100)
   const [sliderValues, setSliderValues] = useState<[number, number]>([0, 100]);
@@ -25,50 +29,35 @@ const RadixDatetimeSlider: React.FC<RadixDatetimeSliderProps> = ({ className = '
   const [dataMinTime, setDataMinTime] = useState<number | null>(null);
   const [dataMaxTime, setDataMaxTime] = useState<number | null>(null);
   
-  // Find min and max date in the data - optimized for large datasets
+  // Find min and max date in the data - the time column is sorted, so these are its ends
   useEffect(() => {
-    if (shipData.length === 0) return;
+    if (shipTime.length === 0) return;
     
-    // Use sampling for very large datasets
-    const sampleSize = 1000;
-    const samplingFactor = Math.max(1, Math.floor(shipData.length / sampleSize));
+    const min = shipTime[0];
+    const max = shipTime[shipTime.length - 1];
     
-    let min = Infinity;
-    let max = -Infinity;
+    setDataMinTime(min);
+    setDataMaxTime(max);
     
-    // Process data in chunks to avoid call stack issues
-    const processDataChunk = (startIdx: number, endIdx: number) => {
-      for (let i = startIdx; i < endIdx; i += samplingFactor) {
-        const item = shipData[i];
-        if (item && item.datetime) {
-          const date = new Date(item.datetime);
-          const timestamp = date.getTime();
-          if (!isNaN(timestamp)) {
-            min = Math.min(min, timestamp);
-            max = Math.max(max, timestamp);
-          }
-        }
-      }
-    };
-    
-    // Process data in chunks of 5000 items
-    const chunkSize = 5000;
-    for (let i = 0; i < shipData.length; i += chunkSize) {
-      processDataChunk(i, Math.min(i + chunkSize, shipData.length));
-    }
-    
-    if (min !== Infinity && max !== -Infinity) {
-      setDataMinTime(min);
-      setDataMaxTime(max);
-      
-      // Initialize slider values if not already set
-      if (minDate === null || maxDate === null) {
-        setDateRange(min, max);
-        setSliderValues([0, 100]);
-        setTempSliderValues([0, 100]);
-      }
+    // Initialize slider values if not already set
+    if (minDate === null || maxDate === null) {
+      setDateRange(min, max);
+      setSliderValues([0, 100]);
+      setTempSliderValues([0, 100]);
     }
-  }, [shipData, minDate, maxDate, setDateRange]);
+  }, [shipTime, minDate, maxDate, setDateRange]);
+  
+  // Follow date range changes made elsewhere, e.g. jumping to a receiver pass
+  useEffect(() => {
+    if (minDate === null || maxDate === null || dataMinTime === null || dataMaxTime === null) return;
+    const range = dataMaxTime - dataMinTime;
+    if (range <= 0) return;
+
+    const toPercent = (t: number) => Math.min(100, Math.max(0, (t - dataMinTime) / range * 100));
+    const values: [number, number] = [toPercent(minDate), toPercent(maxDate)];
+    setSliderValues(values);
+    setTempSliderValues(values);
+  }, [minDate, maxDate, dataMinTime, dataMaxTime]);
   
   // Convert slider percentage to actual timestamp
   const percentToTimestamp = useCallback((percent: number): number => {
@@ -95,11 +84,12 @@ const RadixDatetimeSlider: React.FC<RadixDatetimeSliderProps> = ({ className = '
   // Handle reset
   const handleReset = useCallback(() => {
     if (dataMinTime !== null && dataMaxTime !== null) {
+      setDateSegments([]);
       setDateRange(dataMinTime, dataMaxTime);
       setSliderValues([0, 100]);
       setTempSliderValues([0, 100]);
     }
-  }, [dataMinTime, dataMaxTime, setDateRange]);
+  }, [dataMinTime, dataMaxTime, setDateRange, setDateSegments]);
   
   // Format timestamps for display - memoize to prevent unnecessary recalculations
   const formatMinTime = useMemo(() => 
@@ -127,12 +117,31 @@ const RadixDatetimeSlider: React.FC<RadixDatetimeSliderProps> = ({ className = '
     <div className={`w-full p-6 rounded-lg shadow-md ${className}`}>
       <div className="flex items-center justify-between mb-6">
         <h3 className="font-bold text-lg text-gray-800">Date Range Filter</h3>
-        <button 
-          onClick={handleReset}
-          className="px-3 py-1.5 bg-blue-600 text-black rounded hover:bg-blue-700 text-sm font-medium transition-colors"
-        >
-          Reset Range
-        </button>
+        <div className="flex flex-wrap items-center gap-2">
+          <SeriesToggle label="Zoom sets range" checked={zoomSetsRange} onChange={setZoomSetsRange} />
+          <button
+            onClick={goBack}
+            disabled={historyIndex <= 0}
+            title="Previous range"
+            className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            ← Back
+          </button>
+          <button
+            onClick={goForward}
+            disabled={historyIndex >= history.length - 1}
+            title="Next range"
+            className="px-3 py-1.5 bg-gray-200 rounded hover:bg-gray-300 text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Forward →
+          </button>
+          <button 
+            onClick={handleReset}
+            className="px-3 py-1.5 bg-blue-600 text-black rounded hover:bg-blue-700 text-sm font-medium transition-colors"
+          >
+            Reset Range
+          </button>
+        </div>
       </div>
       
       <div className="space-y-6">
@@ -166,10 +175,40 @@ const RadixDatetimeSlider: React.FC<RadixDatetimeSliderProps> = ({ className = '
             />
           </div>
         </div>
+
+        {/* Passes selected on the position plot, each can be zoomed to on its own */}
+        {segments.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium text-gray-800">Selected passes:</span>
+            <button
+              onClick={() => setDateSegments(segments)}
+              className={`px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 ${minDate === segments[0][0] && maxDate === segments[segments.length - 1][1] ? 'bg-blue-100' : ''}`}
+            >
+              All ({segments.length})
+            </button>
+            {segments.map(([start, end], i) => (
+              <button
+                key={start}
+                onClick={() => setDateRange(start, end)}
+                title={`${formatTime(start)} – ${formatTime(end)}`}
+                className={`px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 ${minDate === start && maxDate === end ? 'bg-blue-100' : ''}`}
+              >
+                {i + 1}
+              </button>
+            ))}
+            <button
+              onClick={() => setDateSegments([])}
+              className="px-2 py-1 text-gray-600 hover:text-gray-900"
+            >
+              Clear
+            </button>
+          </div>
+        )}
       </div>
       
       <div className="text-sm text-gray-600 mt-1 p-2 bg-blue-50 rounded border border-blue-100">
         <span className="font-medium">Tip:</span> Drag the handles to adjust the date range. Changes will apply when you release the slider.
+        With <span className="font-medium">Zoom sets range</span> on, zooming or panning a time-series chart sets the range too.
       </div>
     </div>
   );
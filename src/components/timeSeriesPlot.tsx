@@ -1,20 +1,27 @@
 import uPlot from 'uplot';
 import 'uplot/dist/uPlot.min.css';
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { useShipStore, ShipData } from '@/Store/shipStore';
+import { useShipStore, ShipChannel } from '@/Store/shipStore';
 import { wheelZoomPlugin } from '@/lib/uplot-wheel-zoom-plugin';
-import { paddedRange, processTimestamps, formatTime, decimateData } from '@/lib/UPlot.utils';
-import { useDateRangeStore } from '@/Store/dateRangeStore';
+import { lodPlugin, findVisibleWindow } from '@/lib/uplot-lod-plugin';
+import { cursorTimePlugin, TIME_SYNC_KEY } from '@/lib/uplot-cursor-time-plugin';
+import { rangeZoomPlugin } from '@/lib/uplot-range-zoom-plugin';
+import { paddedRange, formatTime, decimateIndices, pickTimestamps, pickValues, makeWrapGaps, DecimationStrategy } from '@/lib/UPlot.utils';
+import { useTimeWindowStore } from '@/Store/timeWindowStore';
 import React from 'react';
+import DecimationSelect from '@/components/DecimationSelect';
 
 // Interface for the component props
 interface TimeSeriesPlotProps {
-  dataColumn: keyof ShipData;  // The column name to plot from the dataset (must be a key of ShipData)
+  dataColumn: ShipChannel;     // The ship channel to plot
   title?: string;              // Chart title
   color?: string;              // Line/point color
   seriesLabel?: string;        // Label for the data series
   height?: number;             // Chart height in pixels
   MAX_POINTS?: number;          // Number of data points to decimate to
+  decimation?: DecimationStrategy; // Initial downsampling strategy
+  valueScale?: number;         // Factor applied to the values, e.g. for unit conversion
+  wrapAngles?: boolean;        // Break the line where an angle wraps around 0/360
 }
 
 // Use React.memo to prevent unnecessary rerenders
@@ -24,70 +31,61 @@ const TimeSeriesPlot: React.FC<TimeSeriesPlotProps> = ({
   color = "blue",
   seriesLabel,
   height = 256,
-  MAX_POINTS = 20000
+  MAX_POINTS = 20000,
+  decimation = 'minmax',
+  valueScale = 1,
+  wrapAngles = false
 }) => {
-  const { data } = useShipStore();
-  const { minDate, maxDate } = useDateRangeStore();
+  const { columns } = useShipStore();
+  const { startIdx, endIdx } = useTimeWindowStore();
   const plotRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<uPlot | null>(null);
   const [error, setError] = useState<string | null>(null);
   const isInitializedRef = useRef<boolean>(false);
+  const [strategy, setStrategy] = useState<DecimationStrategy>(decimation);
   
   // Determine the series label if not provided
   const actualSeriesLabel = seriesLabel || `${dataColumn.charAt(0).toUpperCase() + dataColumn.slice(1)}`;
   
   // Reference to store processed data for reuse
   const dataRef = useRef<{
-    sortedTimestamps: number[];
+    sortedTimestamps: Float64Array;
     values: (number | null)[];
   } | null>(null);
 
-  // Filter data based on date range and required column
-  const getFilteredData = useCallback(() => {
-    // Create a clean dataset with valid entries only - check for the specified column
-    const validData = data.filter(d => 
-      d.datetime && (d[dataColumn] !== undefined)
-    );
-    console.log(`Found ${validData.length} data points with datetime and ${dataColumn} values`);
+  // Row indices within the date range (or a visible part of it) that have a value in the required column
+  const getFilteredIndices = useCallback((from: number = startIdx, to: number = endIdx) => {
+    const values = columns.channels[dataColumn];
 
-    // Further filter by date range if set
-    if (minDate !== null && maxDate !== null) {
-      return validData.filter(d => {
-        if (!d.datetime) return false;
-        const timestamp = new Date(d.datetime).getTime();
-        return timestamp >= minDate && timestamp <= maxDate;
-      });
+    const validIndices: number[] = [];
+    for (let i = from; i < to; i++) {
+      if (!isNaN(values[i])) validIndices.push(i);
     }
+    console.log(`Found ${validIndices.length} data points with datetime and ${dataColumn} values`);
 
-    const decimatedData = validData.length > MAX_POINTS 
-      ? decimateData(validData, MAX_POINTS)
-      : validData;
-
-    return decimatedData;
-  }, [data, minDate, maxDate, dataColumn, MAX_POINTS]);
+    // Decimate both the full dataset and a selected range
+    return decimateIndices(columns.time, [values], validIndices, MAX_POINTS, strategy);
+  }, [columns, startIdx, endIdx, dataColumn, MAX_POINTS, strategy]);
 
   // Process data into format needed for chart
   const processChartData = useCallback(() => {
     try {
       setError(null);
       
-      // Get filtered data
-      const filteredData = getFilteredData();
+      // Get filtered rows
+      const filteredIndices = getFilteredIndices();
 
-      console.log(`Found ${filteredData.length} data points with datetime and ${dataColumn} values in selected range`);
+      console.log(`Found ${filteredIndices.length} data points with datetime and ${dataColumn} values in selected range`);
 
-      if (filteredData.length === 0) {
+      if (filteredIndices.length === 0) {
         setError(`No valid data points found with both datetime and ${dataColumn} values in selected range`);
         return null;
       }
       
-      const { timeIndices, sortedTimestamps } = processTimestamps(filteredData, {convertToSeconds: true});
+      const sortedTimestamps = pickTimestamps(columns.time, filteredIndices);
       
-      // Extract values aligned with sorted timestamps for the specified column
-      const values = timeIndices.map((i: number) => {
-        const value = filteredData[i][dataColumn];
-        return typeof value === 'number' ? value : null;
-      });
+      // Extract values aligned with the timestamps for the specified column
+      const values = pickValues(columns.channels[dataColumn], filteredIndices, valueScale);
 
       // Find the min and max values for scale setting
       const allValues = values.filter((v: number | null): v is number => v !== null);
@@ -106,7 +104,18 @@ const TimeSeriesPlot: React.FC<TimeSeriesPlotProps> = ({
       setError(`Error processing data: ${err instanceof Error ? err.message : String(err)}`);
       return null;
     }
-  }, [getFilteredData, dataColumn]);
+  }, [getFilteredIndices, columns, dataColumn, valueScale]);
+
+  // Latest level-of-detail query, called by the LOD plugin when the chart is zoomed
+  const lodQueryRef = useRef<(min: number, max: number) => uPlot.AlignedData | null>(() => null);
+  useEffect(() => {
+    lodQueryRef.current = (min, max) => {
+      const [from, to] = findVisibleWindow(columns.time, startIdx, endIdx, min, max);
+      const indices = getFilteredIndices(from, to);
+      if (indices.length === 0) return null;
+      return [pickTimestamps(columns.time, indices), pickValues(columns.channels[dataColumn], indices, valueScale)];
+    };
+  }, [columns, startIdx, endIdx, getFilteredIndices, dataColumn, valueScale]);
 
   // Create chart options only once
   const createChartOptions = useCallback((containerWidth: number): uPlot.Options => {
@@ -115,15 +124,20 @@ const TimeSeriesPlot: React.FC<TimeSeriesPlotProps> = ({
       height,
       title,
       mode: 1,
-      plugins: [wheelZoomPlugin({
-        factor: 0.9,
-        drag: true,
-        scroll: true,
-      })],
+      plugins: [
+        wheelZoomPlugin({
+          factor: 0.9,
+          drag: true,
+          scroll: true,
+        }),
+        lodPlugin({ getData: (min, max) => lodQueryRef.current(min, max) }),
+        cursorTimePlugin(),
+        rangeZoomPlugin(),
+      ],
       cursor: {
         drag: { x: true, y: true, uni: 1, dist: 30 },
         sync: {
-          key: 'test',
+          key: TIME_SYNC_KEY,
           scales: ["x", null],
         }
       },
@@ -137,6 +151,7 @@ const TimeSeriesPlot: React.FC<TimeSeriesPlotProps> = ({
         {
           label: actualSeriesLabel,
           stroke: color,
+          gaps: wrapAngles ? makeWrapGaps(180) : undefined,
         }
       ],
       scales: {
@@ -165,11 +180,11 @@ const TimeSeriesPlot: React.FC<TimeSeriesPlotProps> = ({
         show: true
       }
     };
-  }, [title, height, color, actualSeriesLabel]);
+  }, [title, height, color, actualSeriesLabel, wrapAngles]);
 
   // Main effect to create or update the chart
   useEffect(() => {
-    if (!plotRef.current || !data.length) {
+    if (!plotRef.current || !columns.length) {
       return;
     }
 
@@ -226,17 +241,21 @@ const TimeSeriesPlot: React.FC<TimeSeriesPlotProps> = ({
         resizeObserver.disconnect();
       };
     }
-  }, [data, minDate, maxDate, processChartData, createChartOptions, dataColumn]);
+  }, [columns, startIdx, endIdx, processChartData, createChartOptions, dataColumn]);
 
+  // The plot element stays mounted while an error shows, so the next data change can clear it
   return (
     <div className="w-full p-4">
       {error ? (
         <div className="text-center py-8 text-red-500">{error}</div>
-      ) : data.length === 0 ? (
+      ) : columns.length === 0 ? (
         <div className="text-center py-8">No data available</div>
       ) : (
-        <div ref={plotRef} />
+        <div className="mb-2 flex justify-end">
+          <DecimationSelect value={strategy} onChange={setStrategy} />
+        </div>
       )}
+      <div ref={plotRef} className={error || columns.length === 0 ? 'hidden' : ''} />
     </div>
   );
 }
@@ -8,6 +8,160 @@ export const decimateData = <T>(data: T[], maxPoints: number = 2000): T[] => {
   return data.filter((_, i) => i % skipFactor === 0);
 }
 
+export type DecimationStrategy = 'minmax' | 'lttb' | 'stride';
+
+export const DECIMATION_STRATEGIES: { value: DecimationStrategy; label: string }[] = [
+  { value: 'minmax', label: 'Min/Max (M4)' },
+  { value: 'lttb', label: 'LTTB' },
+  { value: 'stride', label: 'Every Nth' },
+];
+
+/**
+ * M4 downsampling: keeps the first, last, minimum and maximum row of each bucket
+ * Buckets hold an equal number of rows, so every extreme of the channel survives.
+ */
+const minMaxIndices = (values: Float64Array, indices: number[], maxPoints: number): number[] => {
+  const bucketCount = Math.max(1, Math.floor(maxPoints / 4));
+  const bucketSize = indices.length / bucketCount;
+  const result: number[] = [];
+
+  for (let b = 0; b < bucketCount; b++) {
+    const from = Math.floor(b * bucketSize);
+    const to = Math.min(indices.length, Math.floor((b + 1) * bucketSize));
+    if (from >= to) continue;
+
+    let minPos = -1;
+    let maxPos = -1;
+    for (let k = from; k < to; k++) {
+      const value = values[indices[k]];
+      if (isNaN(value)) continue;
+      if (minPos < 0 || value < values[indices[minPos]]) minPos = k;
+      if (maxPos < 0 || value > values[indices[maxPos]]) maxPos = k;
+    }
+
+    // Emit the picks in time order without duplicates
+    const picks = [from, minPos, maxPos, to - 1].filter(k => k >= 0).sort((x, y) => x - y);
+    for (let j = 0; j < picks.length; j++) {
+      if (j === 0 || picks[j] !== picks[j - 1]) result.push(indices[picks[j]]);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Largest-Triangle-Three-Buckets downsampling of one run of rows without gaps
+ * Keeps the row of each bucket that forms the largest triangle with its neighbours,
+ * which preserves the visual shape of the series including its peaks.
+ */
+const lttbRun = (time: Float64Array, values: Float64Array, valid: number[], maxPoints: number): number[] => {
+  const n = valid.length;
+  if (n <= maxPoints || maxPoints < 3) return valid;
+
+  const result: number[] = [valid[0]];
+  const bucketSize = (n - 2) / (maxPoints - 2);
+  let a = 0;
+
+  for (let b = 0; b < maxPoints - 2; b++) {
+    // Average of the next bucket is the third vertex of the triangle
+    const nextFrom = Math.floor((b + 1) * bucketSize) + 1;
+    const nextTo = Math.min(n, Math.floor((b + 2) * bucketSize) + 1);
+    let avgX = 0;
+    let avgY = 0;
+    for (let k = nextFrom; k < nextTo; k++) {
+      avgX += time[valid[k]];
+      avgY += values[valid[k]];
+    }
+    const count = Math.max(1, nextTo - nextFrom);
+    avgX /= count;
+    avgY /= count;
+
+    const from = Math.floor(b * bucketSize) + 1;
+    const to = Math.floor((b + 1) * bucketSize) + 1;
+    const ax = time[valid[a]];
+    const ay = values[valid[a]];
+
+    let maxArea = -1;
+    let pick = from;
+    for (let k = from; k < to; k++) {
+      const area = Math.abs((ax - avgX) * (values[valid[k]] - ay) - (ax - time[valid[k]]) * (avgY - ay));
+      if (area > maxArea) {
+        maxArea = area;
+        pick = k;
+      }
+    }
+
+    result.push(valid[pick]);
+    a = pick;
+  }
+
+  result.push(valid[n - 1]);
+  return result;
+};
+
+/**
+ * LTTB downsampling that keeps data gaps
+ * Each run of non-NaN rows is downsampled on its own with a share of the points, and the
+ * first NaN row after a run is kept, so the plotted line breaks there as it does with M4.
+ */
+const lttbIndices = (time: Float64Array, values: Float64Array, indices: number[], maxPoints: number): number[] => {
+  const runs: { rows: number[]; gap: number }[] = [];
+  let rows: number[] = [];
+  let validCount = 0;
+  for (const i of indices) {
+    if (!isNaN(values[i])) {
+      rows.push(i);
+      validCount++;
+    } else if (rows.length > 0) {
+      runs.push({ rows, gap: i });
+      rows = [];
+    }
+  }
+  if (rows.length > 0) runs.push({ rows, gap: -1 });
+
+  const result: number[] = [];
+  runs.forEach(run => {
+    const budget = Math.max(3, Math.round(maxPoints * run.rows.length / validCount));
+    const picks = lttbRun(time, values, run.rows, budget);
+    for (let k = 0; k < picks.length; k++) result.push(picks[k]);
+    if (run.gap >= 0) result.push(run.gap);
+  });
+  return result;
+};
+
+/**
+ * Downsamples rows of one or more channels to roughly maxPoints rows
+ * Peak-preserving strategies run per channel and the selected rows are merged,
+ * so extremes of every channel survive.
+ * @param time Epoch-millisecond time column
+ * @param channels Channels the rows will be plotted for
+ * @param indices Candidate row indices in ascending order
+ * @param maxPoints Target number of rows
+ * @param strategy Downsampling strategy
+ * @returns Selected row indices in ascending order
+ */
+export const decimateIndices = (
+  time: Float64Array,
+  channels: Float64Array[],
+  indices: number[],
+  maxPoints: number,
+  strategy: DecimationStrategy = 'minmax'
+): number[] => {
+  if (indices.length <= maxPoints) return indices;
+  if (strategy === 'stride' || channels.length === 0) return decimateData(indices, maxPoints);
+
+  const budget = Math.max(4, Math.floor(maxPoints / channels.length));
+  const selected = new Set<number>();
+  channels.forEach(values => {
+    const picks = strategy === 'lttb'
+      ? lttbIndices(time, values, indices, budget)
+      : minMaxIndices(values, indices, budget);
+    picks.forEach(i => selected.add(i));
+  });
+
+  return Array.from(selected).sort((x, y) => x - y);
+};
+
 // Function to add padding to axis ranges
 export const paddedRange = (_u: uPlot, min: number | null, max: number | null, axis: number): [number, number] => {
   // If data bounds are invalid, return reasonable defaults
@@ -22,6 +176,80 @@ export const paddedRange = (_u: uPlot, min: number | null, max: number | null, a
   return [min - padding, max + padding];
 };
 
+/**
+ * Creates a path builder that draws each point of a mode 2 (x/y facet) series as a filled circle
+ * @param size Point diameter in CSS pixels
+ * @returns A drawing function compatible with uPlot series paths
+ */
+export const makeScatterPaths = (size: number): uPlot.Series.PathBuilder => {
+  return (u: uPlot, seriesIdx: number) => {
+    uPlot.orient(u, seriesIdx, (series, dataX, dataY, scaleX, scaleY, valToPosX, valToPosY, xOff, yOff, xDim, yDim, moveTo, _lineTo, _rect, arc) => {
+      const radius = size * uPlot.pxRatio / 2;
+      const filtLft = scaleX.min ?? -Infinity;
+      const filtRgt = scaleX.max ?? Infinity;
+      const filtBtm = scaleY.min ?? -Infinity;
+      const filtTop = scaleY.max ?? Infinity;
+
+      u.ctx.save();
+      u.ctx.rect(u.bbox.left, u.bbox.top, u.bbox.width, u.bbox.height);
+      u.ctx.clip();
+      u.ctx.fillStyle = series.fill as string;
+      u.ctx.strokeStyle = series.stroke as string;
+      u.ctx.lineWidth = 1;
+
+      const p = new Path2D();
+      for (let i = 0; i < dataX.length; i++) {
+        const xVal = dataX[i] as number | null;
+        const yVal = dataY[i] as number | null;
+        if (xVal == null || yVal == null) continue;
+        // Only draw points in the visible area
+        if (xVal >= filtLft && xVal <= filtRgt && yVal >= filtBtm && yVal <= filtTop) {
+          const cx = valToPosX(xVal, scaleX, xDim, xOff);
+          const cy = valToPosY(yVal, scaleY, yDim, yOff);
+          moveTo(p, cx + radius, cy);
+          arc(p, cx, cy, radius, 0, 2 * Math.PI);
+        }
+      }
+
+      u.ctx.fill(p);
+      u.ctx.stroke(p);
+      u.ctx.restore();
+    });
+
+    return null;
+  };
+};
+
+/**
+ * Creates a gaps refiner that breaks a line wherever consecutive values jump by more than
+ * the threshold, e.g. a heading crossing north, instead of drawing a line across the chart
+ * @param threshold Largest jump that is still drawn as a line
+ * @returns A gaps function compatible with uPlot series
+ */
+export const makeWrapGaps = (threshold: number = 180): uPlot.Series.GapsRefiner => {
+  return (u: uPlot, seriesIdx: number, idx0: number, idx1: number, nullGaps: uPlot.Series.Gaps) => {
+    const xValues = u.data[0];
+    const yValues = u.data[seriesIdx];
+    const gaps = nullGaps.slice();
+
+    let prev = -1;
+    for (let i = idx0; i <= idx1; i++) {
+      const yVal = yValues[i];
+      if (yVal == null) continue;
+      // Null runs are already gaps, so only adjacent points need a break
+      if (prev === i - 1 && Math.abs(yVal - (yValues[prev] as number)) > threshold) {
+        gaps.push([
+          Math.round(u.valToPos(xValues[prev], 'x', true)) + 1,
+          Math.round(u.valToPos(xValues[i], 'x', true)),
+        ]);
+      }
+      prev = i;
+    }
+
+    return gaps.sort((x, y) => x[0] - y[0]);
+  };
+};
+
 export const formatTime = (v: number): string => {
   // Format the time with 24-hour format and milliseconds
   const date = new Date(v);
@@ -32,53 +260,83 @@ export const formatTime = (v: number): string => {
 };
 
 /**
- * Processes date strings from data objects into sorted numeric timestamps
- * @param data Array of data objects containing datetime field
- * @param options Configuration options
- * @returns Object containing sorted timestamps and indices for sorted data
+ * Index of the first element of a sorted array that is not less than value (binary search)
  */
-export const processTimestamps = <T extends { datetime?: string }>(
-  data: T[],
-  options: {
-    convertToSeconds?: boolean;
-    setError?: (message: string) => void;
-  } = {}
-) => {
-  const { convertToSeconds = true, setError } = options;
-  
-  // Extract timestamps from datetime column
-  const timestamps = data.map(d => {
-    if (d.datetime) {
-      const date = new Date(d.datetime);
-      if (isNaN(date.getTime())) {
-        console.warn(`Invalid date: ${d.datetime}`);
-        return null;
-      }
-      // Convert to seconds if requested (default for uPlot), otherwise keep in milliseconds
-      return convertToSeconds ? date.getTime()/1000 : date.getTime();
-    }
-    return null;
-  }).filter(Boolean) as number[];
+export const lowerBound = (sorted: ArrayLike<number>, value: number): number => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
 
-  if (timestamps.length === 0) {
-    const errorMessage = "No valid timestamps found in the data";
-    console.error(errorMessage);
-    if (setError) {
-      setError(errorMessage);
-    }
-    return { timestamps: [], timeIndices: [], sortedTimestamps: [] };
+/**
+ * Index of the first element of a sorted array that is greater than value (binary search)
+ */
+export const upperBound = (sorted: ArrayLike<number>, value: number): number => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] <= value) lo = mid + 1;
+    else hi = mid;
   }
+  return lo;
+};
 
-  // Sort the data by timestamp
-  const timeIndices = timestamps.map((_t, i) => i)
-    .sort((a, b) => timestamps[a] - timestamps[b]);
+/**
+ * Index of the element of a sorted array closest to value, searched within [from, to)
+ * @returns The index, or -1 when the range is empty or value lies outside it
+ */
+export const findNearestIndex = (
+  sorted: ArrayLike<number>,
+  value: number,
+  from: number = 0,
+  to: number = sorted.length
+): number => {
+  if (to <= from || value < sorted[from] || value > sorted[to - 1]) return -1;
+  const idx = Math.min(lowerBound(sorted, value), to - 1);
+  return idx > from && value - sorted[idx - 1] < sorted[idx] - value ? idx - 1 : idx;
+};
 
-  const sortedTimestamps = timeIndices.map(i => timestamps[i]);
+/**
+ * Finds the rows of a sorted time column that fall within a date range
+ * @param time Sorted epoch-millisecond time column
+ * @param minDate Start of the range in ms, or null for no lower bound
+ * @param maxDate End of the range in ms, or null for no upper bound
+ * @returns Half-open index range [start, end)
+ */
+export const findTimeWindow = (
+  time: Float64Array,
+  minDate: number | null,
+  maxDate: number | null
+): [number, number] => {
+  const start = minDate !== null ? lowerBound(time, minDate) : 0;
+  const end = maxDate !== null ? upperBound(time, maxDate) : time.length;
+  return [start, Math.max(start, end)];
+};
 
-  return {
-    timeIndices,
-    sortedTimestamps
-  };
+/**
+ * Gathers epoch-millisecond times at the given rows, converted to seconds for uPlot
+ */
+export const pickTimestamps = (time: Float64Array, indices: ArrayLike<number>): Float64Array => {
+  const timestamps = new Float64Array(indices.length);
+  for (let i = 0; i < indices.length; i++) timestamps[i] = time[indices[i]] / 1000;
+  return timestamps;
 };
 
-  
\ No newline at end of file
+/**
+ * Gathers channel values at the given rows, with NaN mapped to null so uPlot draws gaps
+ * @param scale Factor applied to every value, e.g. for a unit conversion
+ */
+export const pickValues = (values: Float64Array, indices: ArrayLike<number>, scale: number = 1): (number | null)[] => {
+  const picked: (number | null)[] = new Array(indices.length);
+  for (let i = 0; i < indices.length; i++) {
+    const value = values[indices[i]];
+    picked[i] = isNaN(value) ? null : value * scale;
+  }
+  return picked;
+};
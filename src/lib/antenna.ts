@@ -0,0 +1,76 @@
+import { UtmZone, utmToLatLon } from '@/lib/projection';
+
+// Heading channel that gives the direction of the antenna behind the transmitter
+export type AntennaHeadingSource = 'vulcan' | 'atet';
+
+export interface AntennaSettings {
+  lengthM: number;                      // Antenna length from the transmitter to Vulcan
+  depthDifferenceM: number;             // Vulcan depth below the transmitter where either depth is missing
+  headingSource: AntennaHeadingSource;
+}
+
+export const DEFAULT_ANTENNA_SETTINGS: AntennaSettings = {
+  lengthM: 300,
+  depthDifferenceM: 0,
+  headingSource: 'vulcan',
+};
+
+/**
+ * Vulcan (antenna end) positions behind the transmitter
+ *
+ * The antenna is taken as straight, so its horizontal extent follows from its length and the
+ * depth difference between Vulcan and the transmitter. Vulcan is placed that far astern of the
+ * transmitter, opposite the Vulcan or ATET heading (falling back to the other one where the
+ * chosen heading is missing), turned into a grid bearing with the grid convergence.
+ *
+ * @param easting Transmitter UTM easting column
+ * @param northing Transmitter UTM northing column
+ * @param transmitterDepth Transmitter depth column in m, either sign
+ * @param vulcanDepth Vulcan depth column in m, either sign
+ * @param vulcanHeading Vulcan heading column in degrees
+ * @param atetHeading ATET heading column in degrees
+ * @param convergence Grid convergence column in degrees (see computeGridConvergence)
+ * @param utm Zone of the easting and northing columns
+ * @param settings Antenna length, fallback depth difference and heading source
+ * @returns Antenna position columns, NaN where they cannot be computed
+ */
+export const computeAntennaChannels = (
+  easting: Float64Array,
+  northing: Float64Array,
+  transmitterDepth: Float64Array,
+  vulcanDepth: Float64Array,
+  vulcanHeading: Float64Array,
+  atetHeading: Float64Array,
+  convergence: Float64Array,
+  utm: UtmZone | null,
+  settings: AntennaSettings
+) => {
+  const length = easting.length;
+  const antennaEasting = new Float64Array(length).fill(NaN);
+  const antennaNorthing = new Float64Array(length).fill(NaN);
+  const antennaLatitude = new Float64Array(length).fill(NaN);
+  const antennaLongitude = new Float64Array(length).fill(NaN);
+
+  const [primary, secondary] = settings.headingSource === 'vulcan'
+    ? [vulcanHeading, atetHeading]
+    : [atetHeading, vulcanHeading];
+
+  for (let i = 0; i < length; i++) {
+    const direction = (isNaN(primary[i]) ? secondary[i] : primary[i]) - convergence[i];
+    if (!utm || isNaN(direction) || isNaN(easting[i]) || isNaN(northing[i])) continue;
+
+    const measured = Math.abs(vulcanDepth[i]) - Math.abs(transmitterDepth[i]);
+    const depthDifference = isNaN(measured) ? settings.depthDifferenceM : measured;
+    const horizontal = Math.sqrt(Math.max(0, settings.lengthM ** 2 - depthDifference ** 2));
+
+    const theta = direction * Math.PI / 180;
+    antennaEasting[i] = easting[i] - horizontal * Math.sin(theta);
+    antennaNorthing[i] = northing[i] - horizontal * Math.cos(theta);
+
+    const { latitude, longitude } = utmToLatLon(antennaEasting[i], antennaNorthing[i], utm);
+    antennaLatitude[i] = latitude;
+    antennaLongitude[i] = longitude;
+  }
+
+  return { antennaEasting, antennaNorthing, antennaLatitude, antennaLongitude };
+};
@@ -0,0 +1,135 @@
+import type { ShipData, ReceiverData } from '@/Store/shipStore';
+
+export type DatasetKind = 'ship' | 'receiver';
+
+// Maps a raw CSV header to a data field; an empty string means the column is ignored
+export type ColumnMapping = Record<string, string>;
+
+export interface MappingProfile {
+  name: string;
+  kind: DatasetKind;
+  mapping: ColumnMapping;
+}
+
+export type FieldAliases<T> = Record<keyof T & string, string[]>;
+
+// Known header spellings for each ship field, compared after trimming, lowercasing and turning spaces into underscores
+export const SHIP_FIELD_ALIASES: FieldAliases<ShipData> = {
+  datetime: ['datetime', 'date_time', 'timestamp', 'time_utc', 'utc'],
+  latitude: ['latitude', 'lat', 'ship_lat', 'gps_lat'],
+  longitude: ['longitude', 'lon', 'long', 'lng', 'ship_lon', 'gps_lon'],
+  northing: ['northing', 'utm_northing', 'y_utm'],
+  easting: ['easting', 'utm_easting', 'x_utm'],
+  suesiAltitude: ['suesialt', 'altitude', 'alt', 'suesialtitude', 'suesi_altitude'],
+  winch: ['winch', 'winch_out', 'cable_out', 'wire_out'],
+  suesiDepth: ['suesidepth', 'suesi_depth', 'depth_suesi'],
+  bathy: ['bathy', 'bathymetry', 'water_depth'],
+  shipHeading: ['heading', 'heading_deg', 'ship_heading', 'shipheading'],
+  vulcanHeading: ['heading_deg_vulcan', 'vulcan_heading', 'vulcanheading'],
+  vulcanDepth: ['depth_vulcan', 'vulcan_depth', 'vulcandepth'],
+  vulcanTiltX: ['tilt_x_vulcan', 'vulcan_tilt_x', 'vulcantiltx'],
+  vulcanTiltY: ['tilt_y_vulcan', 'vulcan_tilt_y', 'vulcantilty'],
+  atetDepth: ['depth_atet', 'atet_depth', 'atetdepth'],
+  atetTiltX: ['tilt_x_atet', 'atet_tilt_x', 'atettiltx'],
+  atetTiltY: ['tilt_y_atet', 'atet_tilt_y', 'atettilty'],
+  atetHeading: ['heading_atet', 'atet_heading', 'atetheading'],
+  twttPort: ['twtt_port', 'port_twtt', 'twtt_p', 'barracuda_port', 'port_travel_time'],
+  twttStarboard: ['twtt_stbd', 'twtt_starboard', 'stbd_twtt', 'starboard_twtt', 'twtt_s', 'barracuda_stbd', 'stbd_travel_time'],
+  rangePort: ['range_port', 'port_range', 'slant_range_port'],
+  rangeStarboard: ['range_stbd', 'range_starboard', 'stbd_range', 'starboard_range', 'slant_range_stbd'],
+  twttReceiver: ['twtt_rx', 'twtt_receiver', 'rx_twtt', 'receiver_twtt'],
+  rangeReceiver: ['range_rx', 'range_receiver', 'rx_range', 'receiver_range'],
+};
+
+// Known header spellings for each receiver field
+export const RECEIVER_FIELD_ALIASES: FieldAliases<ReceiverData> = {
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'long', 'lng'],
+  depth: ['depth', 'relocated_depth', 'depth_relocated'],
+  depthDeployed: ['depthdeployed', 'depth_deployed', 'deployed_depth'],
+  latitudeDeployed: ['latitudedeployed', 'latitude_deployed', 'deployed_latitude', 'lat_deployed', 'drop_lat', 'drop_latitude'],
+  longitudeDeployed: ['longitudedeployed', 'longitude_deployed', 'deployed_longitude', 'lon_deployed', 'drop_lon', 'drop_longitude'],
+  northing: ['northing', 'utm_northing'],
+  easting: ['easting', 'utm_easting'],
+  siteName: ['sitename', 'site_name', 'site', 'station'],
+};
+
+export const FIELD_ALIASES: Record<DatasetKind, Record<string, string[]>> = {
+  ship: SHIP_FIELD_ALIASES,
+  receiver: RECEIVER_FIELD_ALIASES,
+};
+
+// Spaces inside a header count as underscores, so "Depth Deployed" matches depth_deployed
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/\s+/g, '_');
+
+/**
+ * Finds the field whose alias list contains the header
+ * @returns The field name, or null when the header is unknown
+ */
+export const findAliasField = (header: string, kind: DatasetKind): string | null => {
+  const normalized = normalizeHeader(header);
+  const aliases = FIELD_ALIASES[kind];
+  for (const field of Object.keys(aliases)) {
+    if (aliases[field].includes(normalized)) return field;
+  }
+  return null;
+};
+
+/**
+ * Builds the mapping the alias registry would apply to a set of headers
+ * @returns Mapping from raw header to field, with unknown headers ignored
+ */
+export const detectMapping = (headers: string[], kind: DatasetKind): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  headers.forEach(header => {
+    mapping[header] = findAliasField(header, kind) ?? '';
+  });
+  return mapping;
+};
+
+/**
+ * Creates a Papa `transformHeader` callback
+ * Explicit mappings from the active profile take precedence over the alias registry.
+ * Ignored headers are prefixed so they never collide with a field name.
+ *
+ * @param kind Dataset the headers belong to
+ * @param mapping Optional user mapping from a profile
+ * @param onHeader Optional callback receiving each raw header, used for detection
+ */
+export const createTransformHeader = (
+  kind: DatasetKind,
+  mapping?: ColumnMapping | null,
+  onHeader?: (header: string) => void
+) => (header: string): string => {
+  onHeader?.(header);
+  const trimmed = header.trim();
+  // Own keys only, so headers such as "constructor" are not matched on Object.prototype
+  if (mapping && Object.prototype.hasOwnProperty.call(mapping, trimmed)) {
+    return mapping[trimmed] || `_ignored_${trimmed}`;
+  }
+  return findAliasField(trimmed, kind) ?? normalizeHeader(trimmed);
+};
+
+/**
+ * Validates profiles read from a JSON file
+ * @throws Error when the content is not a list of mapping profiles
+ */
+export const parseMappingProfiles = (json: string): MappingProfile[] => {
+  const parsed = JSON.parse(json);
+  const list = Array.isArray(parsed) ? parsed : [parsed];
+
+  return list.map((item, i) => {
+    if (
+      typeof item?.name !== 'string' ||
+      (item.kind !== 'ship' && item.kind !== 'receiver') ||
+      typeof item.mapping !== 'object' || item.mapping === null
+    ) {
+      throw new Error(`Entry ${i + 1} is not a valid mapping profile`);
+    }
+    const mapping: ColumnMapping = {};
+    Object.entries(item.mapping).forEach(([header, field]) => {
+      if (typeof field === 'string') mapping[header] = field;
+    });
+    return { name: item.name, kind: item.kind, mapping };
+  });
+};
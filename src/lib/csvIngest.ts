@@ -0,0 +1,60 @@
+import type { ReceiverData } from '@/Store/shipStore';
+import { ColumnMapping, DatasetKind } from '@/lib/columnMapping';
+import { ShipColumns } from '@/lib/shipColumns';
+
+// Where the CSV content comes from; URLs must be absolute since they are fetched inside the worker
+export type CsvSource = { url: string } | { file: File } | { text: string };
+
+export interface ParseProgress {
+  rows: number;              // Rows parsed so far
+  bytes: number;             // Bytes consumed so far
+  totalBytes: number;        // Size of the whole input
+  etaMs: number | null;      // Estimated time remaining, null until it can be estimated
+}
+
+// Parsed result of each dataset: ship logs become columns, receiver tables stay as rows
+export interface CsvResultData {
+  ship: ShipColumns;
+  receiver: ReceiverData[];
+}
+
+// Messages sent from the main thread to the CSV parser worker
+export type CsvWorkerRequest =
+  | { type: 'parse'; kind: DatasetKind; source: CsvSource; mapping: ColumnMapping | null }
+  | { type: 'cancel' };
+
+// Messages sent from the CSV parser worker back to the main thread
+export type CsvWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; data: CsvResultData[DatasetKind]; headers: string[] }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
+
+// Numeric cell value; numbers that dynamic typing left as text (e.g. padded with spaces) are parsed too
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.trim());
+    return isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+// Text cell value; site names are often plain numbers, which dynamic typing turns into numbers
+const toText = (value: unknown): string | undefined => {
+  if (typeof value === 'number') return isFinite(value) ? String(value) : undefined;
+  if (typeof value === 'string' && value.trim() !== '') return value.trim();
+  return undefined;
+};
+
+export const toReceiverData = (rows: ReceiverData[]): ReceiverData[] => rows.map((row) => ({
+  latitude: toNumber(row.latitude),
+  longitude: toNumber(row.longitude),
+  depth: toNumber(row.depth),
+  depthDeployed: toNumber(row.depthDeployed),
+  latitudeDeployed: toNumber(row.latitudeDeployed),
+  longitudeDeployed: toNumber(row.longitudeDeployed),
+  northing: toNumber(row.northing),
+  easting: toNumber(row.easting),
+  siteName: toText(row.siteName),
+}));
@@ -0,0 +1,71 @@
+import { ColumnMapping, DatasetKind } from '@/lib/columnMapping';
+import { CsvResultData, CsvSource, CsvWorkerRequest, CsvWorkerResponse, ParseProgress } from '@/lib/csvIngest';
+
+export interface WorkerParseOptions {
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;  // Aborting cancels the parse and rejects with an AbortError
+}
+
+/**
+ * Parses a CSV source in a dedicated Web Worker
+ * @param kind Dataset the CSV contains, selects the header aliases and the result format
+ * @param source File, absolute URL or CSV text to parse
+ * @param mapping Optional column mapping profile overriding the alias registry
+ * @param options Progress callback and abort signal
+ * @returns Ship columns or receiver rows, and the raw headers found in the file
+ */
+export const parseCsvInWorker = <K extends DatasetKind>(
+  kind: K,
+  source: CsvSource,
+  mapping: ColumnMapping | null,
+  options: WorkerParseOptions = {}
+): Promise<{ data: CsvResultData[K]; headers: string[] }> => {
+  const { onProgress, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('CSV parsing was cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      worker.postMessage({ type: 'cancel' } satisfies CsvWorkerRequest);
+    };
+
+    worker.onmessage = (e: MessageEvent<CsvWorkerResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          cleanup();
+          resolve({ data: message.data as CsvResultData[K], headers: message.headers });
+          break;
+        case 'cancelled':
+          cleanup();
+          reject(new DOMException('CSV parsing was cancelled', 'AbortError'));
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (e) => {
+      cleanup();
+      reject(new Error(e.message || 'CSV parser worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage({ type: 'parse', kind, source, mapping } satisfies CsvWorkerRequest);
+  });
+};
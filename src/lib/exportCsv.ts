@@ -0,0 +1,63 @@
+import { ShipChannel, ShipColumns } from '@/lib/shipColumns';
+
+// Channels written to the positions export, in column order
+export const POSITION_EXPORT_CHANNELS: ShipChannel[] = [
+  'latitude',
+  'longitude',
+  'utmEasting',
+  'utmNorthing',
+  'transmitterLatitude',
+  'transmitterLongitude',
+  'transmitterEasting',
+  'transmitterNorthing',
+  'lblLatitude',
+  'lblLongitude',
+  'lblEasting',
+  'lblNorthing',
+  'lblSigmaEasting',
+  'lblSigmaNorthing',
+  'antennaLatitude',
+  'antennaLongitude',
+  'antennaEasting',
+  'antennaNorthing',
+];
+
+/**
+ * Writes ship columns as CSV, one row per sample with an ISO datetime and the channel keys as headers
+ * Rows where every exported channel is missing are skipped, and missing values are left empty.
+ * @param columns Ship columns
+ * @param channels Channels to write, in column order
+ * @param startIdx First row to write
+ * @param endIdx End of the rows to write (exclusive)
+ * @returns CSV text
+ */
+export const columnsToCsv = (
+  columns: ShipColumns,
+  channels: ShipChannel[],
+  startIdx: number = 0,
+  endIdx: number = columns.length
+): string => {
+  const values = channels.map(channel => columns.channels[channel]);
+  const lines = [['datetime', ...channels].join(',')];
+
+  for (let i = startIdx; i < endIdx; i++) {
+    if (values.every(column => isNaN(column[i]))) continue;
+    const cells = values.map(column => isNaN(column[i]) ? '' : String(column[i]));
+    lines.push([new Date(columns.time[i]).toISOString(), ...cells].join(','));
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Saves text as a file through a temporary download link
+ */
+export const downloadText = (text: string, filename: string, type: string = 'text/csv'): void => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
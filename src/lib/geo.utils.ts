@@ -0,0 +1,92 @@
+import { latLonToUtm, utmZoneForLongitude, UtmZone } from '@/lib/projection';
+
+// Mean Earth radius (IUGG) in meters
+export const EARTH_RADIUS_M = 6371008.8;
+
+const toRadians = (deg: number): number => deg * Math.PI / 180;
+const toDegrees = (rad: number): number => rad * 180 / Math.PI;
+
+/**
+ * Great-circle distance between two points using the haversine formula
+ * @returns Distance in meters
+ */
+export const haversineDistance = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number => {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dPhi = toRadians(lat2 - lat1);
+  const dLambda = toRadians(lon2 - lon1);
+
+  const a = Math.sin(dPhi / 2) ** 2 +
+    Math.cos(phi1) * Math.cos(phi2) * Math.sin(dLambda / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Initial bearing from point 1 to point 2
+ * @returns Bearing in degrees clockwise from north, in [0, 360)
+ */
+export const initialBearing = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number => {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLambda = toRadians(lon2 - lon1);
+
+  const y = Math.sin(dLambda) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) -
+    Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLambda);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+export interface ProfileLine {
+  startLatitude: number;
+  startLongitude: number;
+  endLatitude: number;
+  endLongitude: number;
+}
+
+/**
+ * Creates a projector that maps lon/lat points onto a profile line.
+ * Points are projected to UTM in the zone of the line midpoint, where the
+ * scale error stays below 0.1% up to about 300 km from the central meridian.
+ *
+ * @param line - Profile line, starting at the trench (zero distance)
+ * @returns Function returning along-line and cross-line distances in meters
+ */
+export const createProfileProjector = (line: ProfileLine) => {
+  const utm: UtmZone = {
+    zone: utmZoneForLongitude((line.startLongitude + line.endLongitude) / 2),
+    south: (line.startLatitude + line.endLatitude) / 2 < 0,
+  };
+  const origin = latLonToUtm(line.startLatitude, line.startLongitude, utm);
+
+  const toLocal = (lat: number, lon: number): [number, number] => {
+    const { easting, northing } = latLonToUtm(lat, lon, utm);
+    return [easting - origin.easting, northing - origin.northing];
+  };
+
+  const [ex, ey] = toLocal(line.endLatitude, line.endLongitude);
+  const length = Math.hypot(ex, ey);
+  // Unit vector along the line; fall back to due east for a degenerate line
+  const ux = length > 0 ? ex / length : 1;
+  const uy = length > 0 ? ey / length : 0;
+
+  return (lat: number, lon: number): { along: number; across: number } => {
+    const [x, y] = toLocal(lat, lon);
+    return {
+      along: x * ux + y * uy,
+      // Positive to the right of the line direction
+      across: x * uy - y * ux,
+    };
+  };
+};
@@ -0,0 +1,40 @@
+/**
+ * Wraps an angle to [0, 360)
+ */
+export const wrapTo360 = (deg: number): number => ((deg % 360) + 360) % 360;
+
+/**
+ * Wraps an angle to (-180, 180]
+ */
+export const wrapTo180 = (deg: number): number => {
+  const wrapped = wrapTo360(deg);
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+/**
+ * Signed smallest difference between two headings, a minus b
+ * @returns Difference in degrees, in (-180, 180]
+ */
+export const headingDifference = (a: number, b: number): number => wrapTo180(a - b);
+
+/**
+ * Unwraps a heading series so it stays continuous across north
+ * Each value is shifted by a multiple of 360 to be within 180 degrees of the previous valid value.
+ * Null values are kept and do not reset the unwrapping.
+ */
+export const unwrapHeadings = (values: (number | null)[]): (number | null)[] => {
+  const unwrapped: (number | null)[] = new Array(values.length);
+  let prev: number | null = null;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) {
+      unwrapped[i] = null;
+      continue;
+    }
+    prev = prev === null ? value : prev + headingDifference(value, prev);
+    unwrapped[i] = prev;
+  }
+
+  return unwrapped;
+};
@@ -0,0 +1,100 @@
+import { UtmZone, utmToLatLon } from '@/lib/projection';
+
+export type LaybackModel = 'straight' | 'catenary' | 'ratio';
+
+export const LAYBACK_MODELS: { value: LaybackModel; label: string }[] = [
+  { value: 'straight', label: 'Straight line' },
+  { value: 'catenary', label: 'Catenary' },
+  { value: 'ratio', label: 'Layback ratio' },
+];
+
+/**
+ * Horizontal distance from the ship to the towed transmitter
+ *
+ * - straight: the cable is a straight line, so the layback is the remaining side of the
+ *   triangle formed by the cable and the depth
+ * - catenary: the cable hangs as a catenary that is horizontal at the transmitter, i.e. the
+ *   drag on the tow body balances the cable tension there. With cable length L and depth D the
+ *   catenary parameter is a = (L² − D²) / 2D and the layback is a·asinh(L / a)
+ * - ratio: the layback is a user-tuned fraction of the cable out
+ *
+ * @param cableOut Cable paid out from the winch in metres
+ * @param depth Transmitter depth below the sheave in metres, either sign
+ * @param model Cable shape model
+ * @param ratio Layback to cable-out ratio for the ratio model
+ * @returns Layback in metres, 0 when the cable hangs straight down, NaN for invalid input
+ */
+export const laybackDistance = (cableOut: number, depth: number, model: LaybackModel, ratio: number): number => {
+  if (isNaN(cableOut) || cableOut <= 0) return NaN;
+  if (model === 'ratio') return ratio * cableOut;
+
+  const d = Math.abs(depth);
+  if (isNaN(d)) return NaN;
+  if (d >= cableOut) return 0;
+  if (model === 'straight' || d === 0) return Math.sqrt(cableOut * cableOut - d * d);
+
+  const a = (cableOut * cableOut - d * d) / (2 * d);
+  return a * Math.asinh(cableOut / a);
+};
+
+/**
+ * Estimated transmitter positions behind the ship
+ * The transmitter is placed at the layback distance astern, opposite the ship heading
+ * (or the course over ground where no heading was logged), in the UTM plane of the ship.
+ * Both are true bearings, so they are turned into grid bearings with the grid convergence.
+ *
+ * @param easting Ship UTM easting column
+ * @param northing Ship UTM northing column
+ * @param heading Ship heading column in degrees
+ * @param course Course over ground column, used where the heading is missing
+ * @param convergence Grid convergence column in degrees (see computeGridConvergence)
+ * @param cableOut Winch cable-out column in metres
+ * @param depth Transmitter depth column in metres
+ * @param utm Zone of the easting and northing columns
+ * @param model Cable shape model
+ * @param ratio Layback to cable-out ratio for the ratio model
+ * @returns Transmitter position columns and the layback distance, NaN where they cannot be computed
+ */
+export const computeLaybackChannels = (
+  easting: Float64Array,
+  northing: Float64Array,
+  heading: Float64Array,
+  course: Float64Array,
+  convergence: Float64Array,
+  cableOut: Float64Array,
+  depth: Float64Array,
+  utm: UtmZone | null,
+  model: LaybackModel,
+  ratio: number
+) => {
+  const length = easting.length;
+  const laybackDistanceM = new Float64Array(length).fill(NaN);
+  const transmitterEasting = new Float64Array(length).fill(NaN);
+  const transmitterNorthing = new Float64Array(length).fill(NaN);
+  const transmitterLatitude = new Float64Array(length).fill(NaN);
+  const transmitterLongitude = new Float64Array(length).fill(NaN);
+
+  for (let i = 0; i < length; i++) {
+    const layback = laybackDistance(cableOut[i], depth[i], model, ratio);
+    laybackDistanceM[i] = layback;
+
+    const direction = (isNaN(heading[i]) ? course[i] : heading[i]) - convergence[i];
+    if (!utm || isNaN(layback) || isNaN(direction) || isNaN(easting[i]) || isNaN(northing[i])) continue;
+
+    const theta = direction * Math.PI / 180;
+    transmitterEasting[i] = easting[i] - layback * Math.sin(theta);
+    transmitterNorthing[i] = northing[i] - layback * Math.cos(theta);
+
+    const { latitude, longitude } = utmToLatLon(transmitterEasting[i], transmitterNorthing[i], utm);
+    transmitterLatitude[i] = latitude;
+    transmitterLongitude[i] = longitude;
+  }
+
+  return {
+    laybackDistance: laybackDistanceM,
+    transmitterLatitude,
+    transmitterLongitude,
+    transmitterEasting,
+    transmitterNorthing,
+  };
+};
@@ -0,0 +1,271 @@
+import { UtmZone, utmToLatLon } from '@/lib/projection';
+
+// Position of a ship-mounted transducer relative to the GPS antenna, in metres
+export interface ShipOffset {
+  forward: number;
+  starboard: number;
+  down: number;
+}
+
+// Settings of the inverted long-baseline (Barracuda) solution
+export interface LblSettings {
+  soundSpeed: number;          // Mean sound speed along the acoustic paths in m/s
+  turnaroundS: number;         // Transponder turn-around delay included in the travel times
+  portOffset: ShipOffset;      // Port transducer
+  starboardOffset: ShipOffset; // Starboard transducer
+}
+
+export const DEFAULT_LBL_SETTINGS: LblSettings = {
+  soundSpeed: 1500,
+  turnaroundS: 0,
+  portOffset: { forward: 0, starboard: -8, down: 4 },
+  starboardOffset: { forward: 0, starboard: 8, down: 4 },
+};
+
+// A priori standard deviations of the observations, used for weighting and the uncertainties
+const RANGE_SIGMA_M = 2;
+const DEPTH_SIGMA_M = 1;
+
+const MAX_ITERATIONS = 10;
+const CONVERGENCE_M = 1e-3;
+
+// Point in the local UTM frame; z is depth, positive down
+interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface LblFix {
+  easting: number;
+  northing: number;
+  depth: number;
+  residualPort: number;        // Observed minus computed slant range in m, see solveLblFix
+  residualStarboard: number;
+  sigmaEasting: number;        // 1σ uncertainties in m
+  sigmaNorthing: number;
+}
+
+/**
+ * One-way slant range from a two-way travel time
+ * @returns Range in metres, NaN when the travel time is missing or shorter than the turn-around delay
+ */
+export const travelTimeToRange = (twtt: number, soundSpeed: number, turnaroundS: number = 0): number =>
+  twtt > turnaroundS ? soundSpeed * (twtt - turnaroundS) / 2 : NaN;
+
+/**
+ * Slant range column of one transponder
+ * Logged ranges are used as they are; elsewhere the travel time is converted with the sound speed.
+ * @param twtt Two-way travel time column in s
+ * @param range Logged slant range column in m
+ * @param settings Sound speed and turn-around delay
+ * @returns Range column in m, NaN where neither was logged
+ */
+export const toSlantRanges = (twtt: Float64Array, range: Float64Array, settings: LblSettings): Float64Array => {
+  const ranges = new Float64Array(twtt.length);
+  for (let i = 0; i < twtt.length; i++) {
+    ranges[i] = isNaN(range[i])
+      ? travelTimeToRange(twtt[i], settings.soundSpeed, settings.turnaroundS)
+      : range[i];
+  }
+  return ranges;
+};
+
+/**
+ * Position of a ship-mounted transducer, with the offset rotated by the ship heading
+ * (roll and pitch are not logged and are ignored)
+ * @param heading Grid bearing of the ship's bow, i.e. the true heading minus the grid convergence
+ */
+export const transducerPosition = (easting: number, northing: number, heading: number, offset: ShipOffset): Point3 => {
+  const theta = heading * Math.PI / 180;
+  const sin = Math.sin(theta);
+  const cos = Math.cos(theta);
+  return {
+    x: easting + offset.forward * sin + offset.starboard * cos,
+    y: northing + offset.forward * cos - offset.starboard * sin,
+    z: offset.down,
+  };
+};
+
+// Inverse of a symmetric 3x3 matrix, or null when it is singular
+const invert3 = (m: number[][]): number[][] | null => {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (!isFinite(det) || Math.abs(det) < 1e-18) return null;
+
+  return [
+    [A / det, -(b * i - c * h) / det, (b * f - c * e) / det],
+    [B / det, (a * i - c * g) / det, -(a * f - c * d) / det],
+    [C / det, -(a * h - b * g) / det, (a * e - b * d) / det],
+  ];
+};
+
+/**
+ * Weighted least-squares (Gauss–Newton) solve of one transmitter fix
+ * Observations are the slant ranges to both transducers and the transmitter depth sensor.
+ * Two spheres and a depth meet at two points mirrored across the transducer baseline, so the
+ * iteration starts astern of the ship to converge on the towed solution.
+ * Three observations for three unknowns leave no redundancy: the residuals are zero wherever
+ * the spheres meet at that depth, and only become non-zero when the observations are inconsistent.
+ * They flag bad ranges or settings but say nothing about the accuracy of a consistent fix.
+ *
+ * @param port Port transducer position
+ * @param starboard Starboard transducer position
+ * @param rangePort Slant range to the port transducer in m
+ * @param rangeStarboard Slant range to the starboard transducer in m
+ * @param depth Transmitter depth in m, positive down
+ * @param initial Starting horizontal position
+ * @returns The fix, or null when the normal equations are singular or the iteration diverges
+ */
+export const solveLblFix = (
+  port: Point3,
+  starboard: Point3,
+  rangePort: number,
+  rangeStarboard: number,
+  depth: number,
+  initial: { x: number; y: number }
+): LblFix | null => {
+  const stations = [port, starboard];
+  const observed = [rangePort, rangeStarboard, depth];
+  const weights = [1 / RANGE_SIGMA_M ** 2, 1 / RANGE_SIGMA_M ** 2, 1 / DEPTH_SIGMA_M ** 2];
+  const p: Point3 = { x: initial.x, y: initial.y, z: depth };
+
+  let computed: number[] = [];
+  let covariance: number[][] | null = null;
+
+  for (let iteration = 0; iteration <= MAX_ITERATIONS; iteration++) {
+    // Model and Jacobian at the current estimate
+    const jacobian: number[][] = [];
+    computed = [];
+    for (const s of stations) {
+      const dx = p.x - s.x;
+      const dy = p.y - s.y;
+      const dz = p.z - s.z;
+      const r = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (r === 0) return null;
+      computed.push(r);
+      jacobian.push([dx / r, dy / r, dz / r]);
+    }
+    computed.push(p.z);
+    jacobian.push([0, 0, 1]);
+
+    // Normal equations JᵀWJ δ = JᵀW (observed − computed)
+    const normal = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+    const rhs = [0, 0, 0];
+    for (let k = 0; k < observed.length; k++) {
+      const misfit = observed[k] - computed[k];
+      for (let a = 0; a < 3; a++) {
+        rhs[a] += jacobian[k][a] * weights[k] * misfit;
+        for (let b = 0; b < 3; b++) normal[a][b] += jacobian[k][a] * weights[k] * jacobian[k][b];
+      }
+    }
+
+    covariance = invert3(normal);
+    if (!covariance) return null;
+    if (iteration === MAX_ITERATIONS) break;
+
+    const step = covariance.map(row => row[0] * rhs[0] + row[1] * rhs[1] + row[2] * rhs[2]);
+    p.x += step[0];
+    p.y += step[1];
+    p.z += step[2];
+    if (!isFinite(p.x) || !isFinite(p.y) || !isFinite(p.z)) return null;
+    if (Math.hypot(step[0], step[1], step[2]) < CONVERGENCE_M) {
+      // Residuals and covariance at the converged estimate
+      computed = stations.map(s => Math.hypot(p.x - s.x, p.y - s.y, p.z - s.z));
+      break;
+    }
+  }
+
+  if (!covariance) return null;
+  return {
+    easting: p.x,
+    northing: p.y,
+    depth: p.z,
+    residualPort: rangePort - computed[0],
+    residualStarboard: rangeStarboard - computed[1],
+    sigmaEasting: Math.sqrt(covariance[0][0]),
+    sigmaNorthing: Math.sqrt(covariance[1][1]),
+  };
+};
+
+/**
+ * Inverted long-baseline transmitter positions from the port and starboard slant ranges
+ *
+ * Each row with both ranges, a ship position, a heading (or course over ground) and a
+ * transmitter depth is solved independently. Ranges are taken at the row time, so ship
+ * motion during the few seconds of acoustic travel is neglected.
+ *
+ * @param easting Ship UTM easting column
+ * @param northing Ship UTM northing column
+ * @param heading Ship heading column in degrees
+ * @param course Course over ground column, used where the heading is missing
+ * @param convergence Grid convergence column in degrees, subtracted from the heading or course
+ * @param rangePort Slant range to the port transducer in m (see toSlantRanges)
+ * @param rangeStarboard Slant range to the starboard transducer in m
+ * @param depth Transmitter depth column in m, either sign
+ * @param utm Zone of the easting and northing columns
+ * @param settings Transducer offsets
+ * @returns Position, residual and uncertainty columns, NaN where no fix was solved
+ */
+export const computeLblChannels = (
+  easting: Float64Array,
+  northing: Float64Array,
+  heading: Float64Array,
+  course: Float64Array,
+  convergence: Float64Array,
+  rangePort: Float64Array,
+  rangeStarboard: Float64Array,
+  depth: Float64Array,
+  utm: UtmZone | null,
+  settings: LblSettings
+) => {
+  const length = easting.length;
+  const channels = {
+    lblEasting: new Float64Array(length).fill(NaN),
+    lblNorthing: new Float64Array(length).fill(NaN),
+    lblLatitude: new Float64Array(length).fill(NaN),
+    lblLongitude: new Float64Array(length).fill(NaN),
+    lblResidualPort: new Float64Array(length).fill(NaN),
+    lblResidualStarboard: new Float64Array(length).fill(NaN),
+    lblSigmaEasting: new Float64Array(length).fill(NaN),
+    lblSigmaNorthing: new Float64Array(length).fill(NaN),
+  };
+  if (!utm) return channels;
+
+  for (let i = 0; i < length; i++) {
+    const direction = (isNaN(heading[i]) ? course[i] : heading[i]) - convergence[i];
+    const z = Math.abs(depth[i]);
+    if (isNaN(rangePort[i]) || isNaN(rangeStarboard[i]) || isNaN(direction) || isNaN(z) ||
+        isNaN(easting[i]) || isNaN(northing[i])) continue;
+
+    const port = transducerPosition(easting[i], northing[i], direction, settings.portOffset);
+    const starboard = transducerPosition(easting[i], northing[i], direction, settings.starboardOffset);
+
+    // Start astern of the ship at the horizontal distance implied by the mean range
+    const meanRange = (rangePort[i] + rangeStarboard[i]) / 2;
+    const horizontal = Math.sqrt(Math.max(0, meanRange ** 2 - (z - (port.z + starboard.z) / 2) ** 2));
+    const theta = direction * Math.PI / 180;
+    const initial = {
+      x: (port.x + starboard.x) / 2 - horizontal * Math.sin(theta),
+      y: (port.y + starboard.y) / 2 - horizontal * Math.cos(theta),
+    };
+
+    const fix = solveLblFix(port, starboard, rangePort[i], rangeStarboard[i], z, initial);
+    if (!fix) continue;
+
+    const { latitude, longitude } = utmToLatLon(fix.easting, fix.northing, utm);
+    channels.lblEasting[i] = fix.easting;
+    channels.lblNorthing[i] = fix.northing;
+    channels.lblLatitude[i] = latitude;
+    channels.lblLongitude[i] = longitude;
+    channels.lblResidualPort[i] = fix.residualPort;
+    channels.lblResidualStarboard[i] = fix.residualStarboard;
+    channels.lblSigmaEasting[i] = fix.sigmaEasting;
+    channels.lblSigmaNorthing[i] = fix.sigmaNorthing;
+  }
+
+  return channels;
+};
@@ -0,0 +1,204 @@
+import { haversineDistance, initialBearing } from '@/lib/geo.utils';
+import { headingDifference } from '@/lib/heading.utils';
+import { computeGridConvergence, projectColumnsToUtm, resolveUtmZone } from '@/lib/projection';
+import { computeLaybackChannels, LaybackModel } from '@/lib/layback';
+import { computeLblChannels, LblSettings, toSlantRanges } from '@/lib/lbl';
+import { AntennaSettings, computeAntennaChannels } from '@/lib/antenna';
+import { DerivedShipChannel, ParsedShipChannel, ShipColumns } from '@/lib/shipColumns';
+import { lowerBound, upperBound } from '@/lib/UPlot.utils';
+
+// Metres per second to knots (1 knot = 1852 m per hour)
+export const MS_TO_KNOTS = 3600 / 1852;
+
+export type SpeedUnit = 'knots' | 'm/s';
+
+// Settings the derived ship channels depend on
+export interface NavigationSettings {
+  smoothingWindowS: number;   // Centred window for speed and course, 0 for adjacent fixes only
+  utmZone: number | null;     // UTM zone for the projected positions, null for the zone of the data
+  laybackModel: LaybackModel; // Cable shape used to place the transmitter behind the ship
+  laybackRatio: number;       // Layback to cable-out ratio for the ratio model
+  lbl: LblSettings;           // Acoustic navigation settings
+  antenna: AntennaSettings;   // Geometry of the antenna towed behind the transmitter
+}
+
+// Setting keys whose change requires the derived channels to be recomputed
+export const NAVIGATION_SETTING_KEYS: (keyof NavigationSettings)[] = [
+  'smoothingWindowS',
+  'utmZone',
+  'laybackModel',
+  'laybackRatio',
+  'lbl',
+  'antenna',
+];
+
+/**
+ * Copies the navigation settings out of a larger object, e.g. the settings store state with its setters
+ */
+export const pickNavigationSettings = (state: NavigationSettings): NavigationSettings =>
+  Object.fromEntries(NAVIGATION_SETTING_KEYS.map(key => [key, state[key]])) as unknown as NavigationSettings;
+
+/**
+ * Speed and course over ground, along-track distance and tow speed from ship positions
+ *
+ * Speed and course at each fix are taken from the straight line between the first and last
+ * fix within a centred time window, which smooths GPS noise without lagging the signal.
+ * With no window (or a single fix in it) the neighbouring fixes are used instead.
+ * Tow speed is the component of the speed over ground along the ship heading.
+ * Along-track distance is the integral of the speed over ground from the first fix.
+ *
+ * @param time Sorted epoch-millisecond time column
+ * @param latitude Ship latitude column
+ * @param longitude Ship longitude column
+ * @param heading Ship heading column, used for the tow speed
+ * @param smoothingWindowMs Width of the centred smoothing window
+ * @returns Derived columns, NaN where they cannot be computed
+ */
+export const computeVelocityChannels = (
+  time: Float64Array,
+  latitude: Float64Array,
+  longitude: Float64Array,
+  heading: Float64Array,
+  smoothingWindowMs: number
+) => {
+  const length = time.length;
+  const speedOverGround = new Float64Array(length).fill(NaN);
+  const courseOverGround = new Float64Array(length).fill(NaN);
+  const alongTrackDistance = new Float64Array(length).fill(NaN);
+  const towSpeed = new Float64Array(length).fill(NaN);
+
+  // Rows with a valid position fix
+  const valid: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (!isNaN(latitude[i]) && !isNaN(longitude[i])) valid.push(i);
+  }
+  const validTime = Float64Array.from(valid, i => time[i]);
+  const n = valid.length;
+
+  const halfWindow = smoothingWindowMs / 2;
+  for (let k = 0; k < n; k++) {
+    let lo = k;
+    let hi = k;
+    if (halfWindow > 0) {
+      lo = lowerBound(validTime, validTime[k] - halfWindow);
+      hi = upperBound(validTime, validTime[k] + halfWindow) - 1;
+    }
+    if (lo === hi) {
+      lo = Math.max(0, k - 1);
+      hi = Math.min(n - 1, k + 1);
+    }
+
+    const dt = (validTime[hi] - validTime[lo]) / 1000;
+    if (dt <= 0) continue;
+
+    const from = valid[lo];
+    const to = valid[hi];
+    const i = valid[k];
+    speedOverGround[i] = haversineDistance(latitude[from], longitude[from], latitude[to], longitude[to]) / dt;
+    courseOverGround[i] = initialBearing(latitude[from], longitude[from], latitude[to], longitude[to]);
+
+    if (!isNaN(heading[i])) {
+      towSpeed[i] = speedOverGround[i] * Math.cos(headingDifference(courseOverGround[i], heading[i]) * Math.PI / 180);
+    }
+  }
+
+  // Along-track distance integrates the smoothed speed, so position noise does not add up
+  let distance = 0;
+  for (let k = 0; k < n; k++) {
+    if (k > 0) {
+      const prevSpeed = speedOverGround[valid[k - 1]];
+      const speed = speedOverGround[valid[k]];
+      const dt = (validTime[k] - validTime[k - 1]) / 1000;
+      if (!isNaN(prevSpeed) && !isNaN(speed)) distance += (prevSpeed + speed) / 2 * dt;
+    }
+    alongTrackDistance[valid[k]] = distance;
+  }
+
+  return { speedOverGround, courseOverGround, alongTrackDistance, towSpeed };
+};
+
+// Parsed channels the derived channels are computed from; full ship columns satisfy this too
+export type ParsedShipColumns = Pick<ShipColumns, 'length' | 'time'> & {
+  channels: Record<ParsedShipChannel, Float64Array>;
+};
+
+export type DerivedChannels = Record<DerivedShipChannel, Float64Array>;
+
+// Message sent to the navigation worker
+export interface NavigationWorkerRequest {
+  columns: ParsedShipColumns;
+  settings: NavigationSettings;
+}
+
+// Messages sent from the navigation worker back to the main thread
+export type NavigationWorkerResponse =
+  | { type: 'done'; channels: DerivedChannels }
+  | { type: 'error'; message: string };
+
+/**
+ * Computes the derived channels of ship columns from the parsed channels
+ * Runs a UTM projection and an LBL solve per row, so it is meant for the navigation worker.
+ * @param columns Ship columns; only the parsed channels are read
+ * @param settings Navigation settings the derived channels depend on
+ * @returns New arrays for every derived channel
+ */
+export const computeDerivedChannels = (columns: ParsedShipColumns, settings: NavigationSettings): DerivedChannels => {
+  const { latitude, longitude, shipHeading, winch, suesiDepth, vulcanDepth, vulcanHeading, atetHeading } = columns.channels;
+  const { twttPort, twttStarboard, twttReceiver, rangePort, rangeStarboard, rangeReceiver } = columns.channels;
+  const velocity = computeVelocityChannels(
+    columns.time,
+    latitude,
+    longitude,
+    shipHeading,
+    settings.smoothingWindowS * 1000
+  );
+  const zone = resolveUtmZone(settings.utmZone, latitude, longitude);
+  const utm = projectColumnsToUtm(latitude, longitude, zone);
+  const convergence = computeGridConvergence(latitude, longitude, zone);
+  const layback = computeLaybackChannels(
+    utm.utmEasting,
+    utm.utmNorthing,
+    shipHeading,
+    velocity.courseOverGround,
+    convergence,
+    winch,
+    suesiDepth,
+    zone,
+    settings.laybackModel,
+    settings.laybackRatio
+  );
+  const ranges = {
+    slantRangePort: toSlantRanges(twttPort, rangePort, settings.lbl),
+    slantRangeStarboard: toSlantRanges(twttStarboard, rangeStarboard, settings.lbl),
+    slantRangeReceiver: toSlantRanges(twttReceiver, rangeReceiver, settings.lbl),
+  };
+  const lbl = computeLblChannels(
+    utm.utmEasting,
+    utm.utmNorthing,
+    shipHeading,
+    velocity.courseOverGround,
+    convergence,
+    ranges.slantRangePort,
+    ranges.slantRangeStarboard,
+    suesiDepth,
+    zone,
+    settings.lbl
+  );
+
+  // The antenna hangs off the acoustic fix where there is one, otherwise off the layback estimate
+  const transmitterEasting = layback.transmitterEasting.map((value, i) => isNaN(lbl.lblEasting[i]) ? value : lbl.lblEasting[i]);
+  const transmitterNorthing = layback.transmitterNorthing.map((value, i) => isNaN(lbl.lblNorthing[i]) ? value : lbl.lblNorthing[i]);
+  const antenna = computeAntennaChannels(
+    transmitterEasting,
+    transmitterNorthing,
+    suesiDepth,
+    vulcanDepth,
+    vulcanHeading,
+    atetHeading,
+    convergence,
+    zone,
+    settings.antenna
+  );
+
+  return { ...velocity, ...utm, ...layback, ...ranges, ...lbl, ...antenna };
+};
@@ -0,0 +1,60 @@
+import { DerivedChannels, NavigationSettings, NavigationWorkerRequest, NavigationWorkerResponse, ParsedShipColumns } from '@/lib/navigation';
+import { SHIP_CHANNELS } from '@/lib/shipColumns';
+
+/**
+ * Computes the derived ship channels in a dedicated Web Worker
+ * Only the parsed channels are sent; the derived ones come back as new arrays.
+ * @param columns Ship columns to derive from
+ * @param settings Navigation settings the derived channels depend on
+ * @param signal Aborting terminates the worker and rejects with an AbortError
+ * @returns Arrays for every derived channel
+ */
+export const deriveChannelsInWorker = (
+  columns: ParsedShipColumns,
+  settings: NavigationSettings,
+  signal?: AbortSignal
+): Promise<DerivedChannels> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Channel derivation was cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/navigation.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException('Channel derivation was cancelled', 'AbortError'));
+    };
+
+    worker.onmessage = (e: MessageEvent<NavigationWorkerResponse>) => {
+      const message = e.data;
+      cleanup();
+      if (message.type === 'done') {
+        resolve(message.channels);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (e) => {
+      cleanup();
+      reject(new Error(e.message || 'Navigation worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    const parsedColumns: ParsedShipColumns = {
+      length: columns.length,
+      time: columns.time,
+      channels: Object.fromEntries(
+        SHIP_CHANNELS.map(channel => [channel, columns.channels[channel]])
+      ) as ParsedShipColumns['channels'],
+    };
+    worker.postMessage({ columns: parsedColumns, settings } satisfies NavigationWorkerRequest);
+  });
+};
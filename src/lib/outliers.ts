@@ -0,0 +1,57 @@
+// Scales the median absolute deviation to a standard deviation for normally distributed data
+const MAD_TO_SIGMA = 1.4826;
+
+/**
+ * Flags outliers with a Hampel filter: a sample is an outlier when it deviates from the median
+ * of the samples within a centred time window by more than threshold scaled MADs
+ * @param time Sorted epoch-millisecond time column
+ * @param values Values to check, NaN for missing samples
+ * @param windowMs Width of the centred window
+ * @param threshold Number of scaled MADs a sample may deviate from the median
+ * @param minDeviation Smallest deviation that is flagged, so flat noise-free stretches are not
+ *   flagged for tiny differences
+ * @returns 1 for outliers and 0 otherwise, per row
+ */
+export const hampelOutliers = (
+  time: Float64Array,
+  values: Float64Array,
+  windowMs: number,
+  threshold: number = 3,
+  minDeviation: number = 0
+): Uint8Array => {
+  const flags = new Uint8Array(values.length);
+
+  // Rows with a valid sample
+  const valid: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (!isNaN(values[i])) valid.push(i);
+  }
+
+  const halfWindow = windowMs / 2;
+  const median = (sorted: number[]) => {
+    const mid = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  };
+
+  let lo = 0;
+  let hi = 0;
+  for (let k = 0; k < valid.length; k++) {
+    const t = time[valid[k]];
+    while (time[valid[lo]] < t - halfWindow) lo++;
+    while (hi < valid.length && time[valid[hi]] <= t + halfWindow) hi++;
+    if (hi - lo < 3) continue;
+
+    const window: number[] = [];
+    for (let j = lo; j < hi; j++) window.push(values[valid[j]]);
+    window.sort((a, b) => a - b);
+    const center = median(window);
+
+    const deviations = window.map(v => Math.abs(v - center)).sort((a, b) => a - b);
+    const scale = MAD_TO_SIGMA * median(deviations);
+
+    const deviation = Math.abs(values[valid[k]] - center);
+    if (deviation > Math.max(threshold * scale, minDeviation)) flags[valid[k]] = 1;
+  }
+
+  return flags;
+};
@@ -0,0 +1,46 @@
+import type { TimeSegment } from '@/Store/dateRangeStore';
+
+// Selected samples further apart in time than this start a new segment
+export const SEGMENT_GAP_MS = 5 * 60 * 1000;
+
+// What a left-button drag does on the position plot
+export type SelectionMode = 'zoom' | 'box' | 'lasso';
+
+export const SELECTION_MODES: { value: SelectionMode; label: string }[] = [
+  { value: 'zoom', label: 'Zoom' },
+  { value: 'box', label: 'Box select' },
+  { value: 'lasso', label: 'Lasso select' },
+];
+
+/**
+ * Whether a point lies inside a polygon (even-odd ray casting)
+ * @param polygon Vertices in order; the closing edge back to the first vertex is implied
+ */
+export const pointInPolygon = (x: number, y: number, polygon: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Groups selected rows into disjoint time segments, one per pass through the selection
+ * @param time Sorted epoch-millisecond time column
+ * @param rows Selected rows in ascending order
+ * @param maxGapMs Largest time between selected rows that still belong to the same segment
+ */
+export const rowsToSegments = (time: Float64Array, rows: number[], maxGapMs: number = SEGMENT_GAP_MS): TimeSegment[] => {
+  const segments: TimeSegment[] = [];
+  for (const row of rows) {
+    const last = segments[segments.length - 1];
+    if (last && time[row] - last[1] <= maxGapMs) {
+      last[1] = time[row];
+    } else {
+      segments.push([time[row], time[row]]);
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,217 @@
+// WGS84 ellipsoid and UTM constants
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const E2 = WGS84_F * (2 - WGS84_F);        // First eccentricity squared
+const EP2 = E2 / (1 - E2);                 // Second eccentricity squared
+const UTM_K0 = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+const toRadians = (deg: number): number => deg * Math.PI / 180;
+const toDegrees = (rad: number): number => rad * 180 / Math.PI;
+
+export interface UtmZone {
+  zone: number;     // 1 to 60
+  south: boolean;   // Southern hemisphere (10,000 km false northing)
+}
+
+export interface UtmPoint {
+  easting: number;   // m
+  northing: number;  // m
+}
+
+/**
+ * UTM zone containing a longitude (the Norway and Svalbard exceptions are not applied)
+ */
+export const utmZoneForLongitude = (lon: number): number => {
+  const zone = Math.floor((lon + 180) / 6) + 1;
+  return Math.min(60, Math.max(1, zone));
+};
+
+// Central meridian of a UTM zone in degrees
+const centralMeridian = (zone: number): number => (zone - 1) * 6 - 180 + 3;
+
+// Meridional arc length from the equator to a latitude in radians
+const meridionalArc = (phi: number): number => {
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  return WGS84_A * (
+    (1 - E2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi -
+    (3 * E2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi) +
+    (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi) -
+    (35 * e6 / 3072) * Math.sin(6 * phi)
+  );
+};
+
+/**
+ * Projects a WGS84 position to UTM (Snyder's transverse Mercator series, sub-metre within a zone)
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param utm Zone and hemisphere to project into; points outside the zone are extended from it
+ * @returns Easting and northing in metres
+ */
+export const latLonToUtm = (lat: number, lon: number, utm: UtmZone): UtmPoint => {
+  const phi = toRadians(lat);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+
+  const n = WGS84_A / Math.sqrt(1 - E2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = EP2 * cosPhi * cosPhi;
+  const a = cosPhi * toRadians(lon - centralMeridian(utm.zone));
+
+  const easting = FALSE_EASTING + UTM_K0 * n * (
+    a +
+    (1 - t + c) * a ** 3 / 6 +
+    (5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5 / 120
+  );
+
+  let northing = UTM_K0 * (
+    meridionalArc(phi) + n * tanPhi * (
+      a * a / 2 +
+      (5 - t + 9 * c + 4 * c * c) * a ** 4 / 24 +
+      (61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6 / 720
+    )
+  );
+  if (utm.south) northing += FALSE_NORTHING_SOUTH;
+
+  return { easting, northing };
+};
+
+/**
+ * Grid convergence: the angle from true north to UTM grid north at a position
+ * Positive east of the central meridian in the northern hemisphere. A true bearing (heading,
+ * course) becomes a grid bearing by subtracting it.
+ * @returns Convergence in degrees
+ */
+export const gridConvergence = (lat: number, lon: number, utm: UtmZone): number => {
+  const phi = toRadians(lat);
+  const cosPhi = Math.cos(phi);
+  const eta2 = EP2 * cosPhi * cosPhi;
+  const a = toRadians(lon - centralMeridian(utm.zone));
+  return toDegrees(a * Math.sin(phi) * (1 + a * a * cosPhi * cosPhi * (1 + 3 * eta2 + 2 * eta2 * eta2) / 3));
+};
+
+/**
+ * Converts a UTM position back to WGS84
+ * @param easting Easting in metres
+ * @param northing Northing in metres
+ * @param utm Zone and hemisphere of the position
+ * @returns Latitude and longitude in degrees
+ */
+export const utmToLatLon = (easting: number, northing: number, utm: UtmZone): { latitude: number; longitude: number } => {
+  const x = easting - FALSE_EASTING;
+  const y = utm.south ? northing - FALSE_NORTHING_SOUTH : northing;
+
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  const mu = y / UTM_K0 / (WGS84_A * (1 - E2 / 4 - 3 * e4 / 64 - 5 * e6 / 256));
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+
+  // Footpoint latitude
+  const phi1 = mu +
+    (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu) +
+    (21 * e1 * e1 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu) +
+    (151 * e1 ** 3 / 96) * Math.sin(6 * mu) +
+    (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const tanPhi1 = Math.tan(phi1);
+  const n1 = WGS84_A / Math.sqrt(1 - E2 * sinPhi1 * sinPhi1);
+  const t1 = tanPhi1 * tanPhi1;
+  const c1 = EP2 * cosPhi1 * cosPhi1;
+  const r1 = WGS84_A * (1 - E2) / (1 - E2 * sinPhi1 * sinPhi1) ** 1.5;
+  const d = x / (n1 * UTM_K0);
+
+  const phi = phi1 - (n1 * tanPhi1 / r1) * (
+    d * d / 2 -
+    (5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4 / 24 +
+    (61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6 / 720
+  );
+  const lambda = (
+    d -
+    (1 + 2 * t1 + c1) * d ** 3 / 6 +
+    (5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5 / 120
+  ) / cosPhi1;
+
+  return {
+    latitude: toDegrees(phi),
+    longitude: centralMeridian(utm.zone) + toDegrees(lambda),
+  };
+};
+
+/**
+ * Picks the UTM zone for a dataset
+ * @param zone User-chosen zone, or null to use the zone of the median longitude
+ * @param latitudes Latitudes of the dataset, the median decides the hemisphere
+ * @param longitudes Longitudes of the dataset
+ * @returns The zone, or null when the dataset has no valid positions
+ */
+export const resolveUtmZone = (
+  zone: number | null,
+  latitudes: ArrayLike<number>,
+  longitudes: ArrayLike<number>
+): UtmZone | null => {
+  // A sample of at most ~1000 valid positions is enough for the medians
+  const step = Math.max(1, Math.floor(latitudes.length / 1000));
+  const lats: number[] = [];
+  const lons: number[] = [];
+  for (let i = 0; i < latitudes.length; i += step) {
+    if (!isNaN(latitudes[i]) && !isNaN(longitudes[i])) {
+      lats.push(latitudes[i]);
+      lons.push(longitudes[i]);
+    }
+  }
+  if (lats.length === 0) return null;
+
+  const median = (values: number[]) => values.sort((a, b) => a - b)[values.length >> 1];
+  return {
+    zone: zone ?? utmZoneForLongitude(median(lons)),
+    south: median(lats) < 0,
+  };
+};
+
+/**
+ * Projects latitude and longitude columns to UTM
+ * @returns Easting and northing columns, NaN where the position is missing
+ */
+export const projectColumnsToUtm = (
+  latitudes: Float64Array,
+  longitudes: Float64Array,
+  utm: UtmZone | null
+): { utmEasting: Float64Array; utmNorthing: Float64Array } => {
+  const length = latitudes.length;
+  const utmEasting = new Float64Array(length).fill(NaN);
+  const utmNorthing = new Float64Array(length).fill(NaN);
+  if (!utm) return { utmEasting, utmNorthing };
+
+  for (let i = 0; i < length; i++) {
+    if (isNaN(latitudes[i]) || isNaN(longitudes[i])) continue;
+    const { easting, northing } = latLonToUtm(latitudes[i], longitudes[i], utm);
+    utmEasting[i] = easting;
+    utmNorthing[i] = northing;
+  }
+
+  return { utmEasting, utmNorthing };
+};
+
+/**
+ * Grid convergence at each row of latitude and longitude columns (see gridConvergence)
+ * @returns Convergence column in degrees, NaN where the position is missing
+ */
+export const computeGridConvergence = (
+  latitudes: Float64Array,
+  longitudes: Float64Array,
+  utm: UtmZone | null
+): Float64Array => {
+  const convergence = new Float64Array(latitudes.length).fill(NaN);
+  if (!utm) return convergence;
+
+  for (let i = 0; i < latitudes.length; i++) {
+    if (isNaN(latitudes[i]) || isNaN(longitudes[i])) continue;
+    convergence[i] = gridConvergence(latitudes[i], longitudes[i], utm);
+  }
+  return convergence;
+};
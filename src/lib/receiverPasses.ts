@@ -0,0 +1,113 @@
+import { EARTH_RADIUS_M } from '@/lib/geo.utils';
+import { ShipColumns } from '@/lib/shipColumns';
+
+// Consecutive samples further apart than this are a gap and do not count towards band times
+const MAX_SAMPLE_GAP_MS = 5 * 60 * 1000;
+
+// Track the source-receiver offsets are measured from
+export type TrackSource = 'ship' | 'transmitter';
+
+/**
+ * Latitude and longitude columns of a track
+ * The transmitter uses the acoustic fix where there is one, otherwise the layback estimate.
+ */
+export const getTrack = (columns: ShipColumns, source: TrackSource): { latitude: Float64Array; longitude: Float64Array } => {
+  const { latitude, longitude, lblLatitude, lblLongitude, transmitterLatitude, transmitterLongitude } = columns.channels;
+  if (source === 'ship') return { latitude, longitude };
+  return {
+    latitude: transmitterLatitude.map((value, i) => isNaN(lblLatitude[i]) ? value : lblLatitude[i]),
+    longitude: transmitterLongitude.map((value, i) => isNaN(lblLongitude[i]) ? value : lblLongitude[i]),
+  };
+};
+
+/**
+ * Creates a function giving the east and north offset in metres of a position from a receiver
+ * Uses an equirectangular projection about the receiver, which is accurate to well under a metre
+ * within the few kilometres that matter for a pass.
+ */
+export const makeOffsetFunction = (receiverLat: number, receiverLon: number) => {
+  const metresPerDegree = EARTH_RADIUS_M * Math.PI / 180;
+  const lonScale = Math.cos(receiverLat * Math.PI / 180);
+  return (lat: number, lon: number): [number, number] => [
+    (lon - receiverLon) * metresPerDegree * lonScale,
+    (lat - receiverLat) * metresPerDegree,
+  ];
+};
+
+export interface ReceiverPass {
+  minOffset: number;          // Smallest horizontal offset from the receiver in m
+  closestIdx: number;         // Row of the closest approach
+  closestTime: number;        // Epoch ms of the closest approach
+  passStart: number;          // Epoch ms where the track enters the widest band around the closest approach
+  passEnd: number;            // Epoch ms where it leaves that band again
+  timeInBands: number[];      // Total ms spent within each offset band, over the whole track
+}
+
+/**
+ * Closest approach of a track to a receiver, and the time the track spends near it
+ *
+ * @param receiverLat Receiver latitude in degrees
+ * @param receiverLon Receiver longitude in degrees
+ * @param time Sorted epoch-millisecond time column of the track
+ * @param latitude Track latitude column
+ * @param longitude Track longitude column
+ * @param bands Offset bands in m, in ascending order
+ * @returns The pass, or null when the track has no valid positions
+ */
+export const findReceiverPass = (
+  receiverLat: number,
+  receiverLon: number,
+  time: Float64Array,
+  latitude: Float64Array,
+  longitude: Float64Array,
+  bands: number[]
+): ReceiverPass | null => {
+  const offsetFrom = makeOffsetFunction(receiverLat, receiverLon);
+
+  const offsets = new Float64Array(time.length);
+  let closestIdx = -1;
+  for (let i = 0; i < time.length; i++) {
+    const [dx, dy] = offsetFrom(latitude[i], longitude[i]);
+    offsets[i] = Math.sqrt(dx * dx + dy * dy);
+    if (!isNaN(offsets[i]) && (closestIdx < 0 || offsets[i] < offsets[closestIdx])) closestIdx = i;
+  }
+  if (closestIdx < 0) return null;
+
+  // Time within each band, counting the interval between two valid samples when both are inside
+  const timeInBands = bands.map(() => 0);
+  let prev = -1;
+  for (let i = 0; i < time.length; i++) {
+    if (isNaN(offsets[i])) continue;
+    if (prev >= 0 && time[i] - time[prev] <= MAX_SAMPLE_GAP_MS) {
+      const outer = Math.max(offsets[i], offsets[prev]);
+      bands.forEach((band, b) => {
+        if (outer <= band) timeInBands[b] += time[i] - time[prev];
+      });
+    }
+    prev = i;
+  }
+
+  // Extent of the pass: the stretch around the closest approach within the widest band
+  const widest = bands.length ? bands[bands.length - 1] : 0;
+  let from = closestIdx;
+  let to = closestIdx;
+  for (let i = closestIdx - 1; i >= 0; i--) {
+    if (isNaN(offsets[i])) continue;
+    if (offsets[i] > widest || time[from] - time[i] > MAX_SAMPLE_GAP_MS) break;
+    from = i;
+  }
+  for (let i = closestIdx + 1; i < time.length; i++) {
+    if (isNaN(offsets[i])) continue;
+    if (offsets[i] > widest || time[i] - time[to] > MAX_SAMPLE_GAP_MS) break;
+    to = i;
+  }
+
+  return {
+    minOffset: offsets[closestIdx],
+    closestIdx,
+    closestTime: time[closestIdx],
+    passStart: time[from],
+    passEnd: time[to],
+    timeInBands,
+  };
+};
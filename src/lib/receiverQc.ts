@@ -0,0 +1,57 @@
+import type { ReceiverData } from '@/Store/shipStore';
+import { makeOffsetFunction } from '@/lib/receiverPasses';
+
+export interface ReceiverQcTolerances {
+  depthM: number;   // Largest accepted difference between relocated and deployed depth
+  driftM: number;   // Largest accepted horizontal distance from the drop point
+}
+
+export interface ReceiverQc {
+  index: number;               // Index into the receiver data
+  name: string;
+  depthDifference: number;     // Relocated minus deployed depth in m, NaN when either is missing
+  driftEast: number;           // Relocated position east of the drop point in m, NaN without a drop point
+  driftNorth: number;          // Relocated position north of the drop point in m
+  drift: number;               // Horizontal drift in m
+  driftBearing: number;        // Direction of the drift in degrees clockwise from north
+  depthFlag: boolean;          // Depth difference beyond tolerance
+  driftFlag: boolean;          // Drift beyond tolerance
+}
+
+/**
+ * Compares the deployed and relocated depth and position of every receiver
+ * @param receivers Receiver data; latitude, longitude and depth are the relocated values
+ * @param tolerances Limits beyond which a site is flagged
+ * @returns One entry per receiver, in the order of the receiver data
+ */
+export const computeReceiverQc = (receivers: ReceiverData[], tolerances: ReceiverQcTolerances): ReceiverQc[] =>
+  receivers.map((receiver, index) => {
+    const depthDifference = receiver.depth !== undefined && receiver.depthDeployed !== undefined
+      ? Math.abs(receiver.depth) - Math.abs(receiver.depthDeployed)
+      : NaN;
+
+    let driftEast = NaN;
+    let driftNorth = NaN;
+    if (
+      receiver.latitude !== undefined && receiver.longitude !== undefined &&
+      receiver.latitudeDeployed !== undefined && receiver.longitudeDeployed !== undefined
+    ) {
+      [driftEast, driftNorth] = makeOffsetFunction(receiver.latitudeDeployed, receiver.longitudeDeployed)(
+        receiver.latitude,
+        receiver.longitude
+      );
+    }
+    const drift = Math.hypot(driftEast, driftNorth);
+
+    return {
+      index,
+      name: receiver.siteName ?? `#${index + 1}`,
+      depthDifference,
+      driftEast,
+      driftNorth,
+      drift,
+      driftBearing: (Math.atan2(driftEast, driftNorth) * 180 / Math.PI + 360) % 360,
+      depthFlag: Math.abs(depthDifference) > tolerances.depthM,
+      driftFlag: drift > tolerances.driftM,
+    };
+  });
@@ -0,0 +1,211 @@
+import type { ShipData } from '@/Store/shipStore';
+
+// Numeric ship channels parsed from the CSV, each stored as one Float64Array with NaN for missing values
+export const SHIP_CHANNELS = [
+  'latitude',
+  'longitude',
+  'northing',
+  'easting',
+  'suesiAltitude',
+  'winch',
+  'suesiDepth',
+  'bathy',
+  'shipHeading',
+  'vulcanHeading',
+  'vulcanDepth',
+  'vulcanTiltX',
+  'vulcanTiltY',
+  'atetDepth',
+  'atetTiltX',
+  'atetTiltY',
+  'atetHeading',
+  'twttPort',             // s, two-way travel time between the port transducer and the transmitter
+  'twttStarboard',        // s, starboard transducer
+  'rangePort',            // m, slant range when the log has ranges instead of travel times
+  'rangeStarboard',       // m
+  'twttReceiver',         // s, two-way travel time to the receiver being ranged, if any
+  'rangeReceiver',        // m
+] as const;
+
+// Channels computed from the parsed ones after import (see deriveShipChannels)
+export const DERIVED_CHANNELS = [
+  'speedOverGround',      // m/s
+  'courseOverGround',     // degrees clockwise from north
+  'alongTrackDistance',   // m
+  'towSpeed',             // m/s, along the ship heading
+  'utmEasting',           // m, in the UTM zone of the navigation settings
+  'utmNorthing',          // m
+  'laybackDistance',      // m, horizontal distance from the ship to the transmitter
+  'transmitterLatitude',  // Layback estimate of the SUESI position
+  'transmitterLongitude',
+  'transmitterEasting',   // m, same UTM zone as the ship
+  'transmitterNorthing',  // m
+  'slantRangePort',       // m, logged range or travel time converted with the sound speed
+  'slantRangeStarboard',  // m
+  'slantRangeReceiver',   // m
+  'lblEasting',           // m, inverted long-baseline transmitter fix
+  'lblNorthing',          // m
+  'lblLatitude',
+  'lblLongitude',
+  'lblResidualPort',      // m, observed minus computed slant range
+  'lblResidualStarboard', // m
+  'lblSigmaEasting',      // m, 1σ
+  'lblSigmaNorthing',     // m, 1σ
+  'antennaEasting',       // m, Vulcan at the end of the antenna behind the transmitter
+  'antennaNorthing',      // m
+  'antennaLatitude',
+  'antennaLongitude',
+] as const;
+
+export const ALL_SHIP_CHANNELS = [...SHIP_CHANNELS, ...DERIVED_CHANNELS];
+
+export type ParsedShipChannel = typeof SHIP_CHANNELS[number];
+export type DerivedShipChannel = typeof DERIVED_CHANNELS[number];
+export type ShipChannel = ParsedShipChannel | DerivedShipChannel;
+
+export interface ShipColumns {
+  length: number;
+  time: Float64Array;                              // Epoch milliseconds, sorted ascending
+  channels: Record<ShipChannel, Float64Array>;
+}
+
+export const createEmptyColumns = (): ShipColumns => ({
+  length: 0,
+  time: new Float64Array(0),
+  channels: Object.fromEntries(
+    ALL_SHIP_CHANNELS.map(channel => [channel, new Float64Array(0)])
+  ) as Record<ShipChannel, Float64Array>,
+});
+
+// Converts a parsed datetime cell to epoch milliseconds, NaN when invalid
+export const toEpochMs = (value: unknown): number => {
+  if (typeof value === 'string' || typeof value === 'number') {
+    return new Date(value).getTime();
+  }
+  return NaN;
+};
+
+// Buffers of the columns, used to transfer them from a worker without copying
+export const getColumnBuffers = (columns: ShipColumns): ArrayBuffer[] => [
+  columns.time.buffer as ArrayBuffer,
+  ...ALL_SHIP_CHANNELS.map(channel => columns.channels[channel].buffer as ArrayBuffer),
+];
+
+/**
+ * Reorders all columns so the time column is ascending
+ * Returns the input unchanged when it is already sorted, which is the usual case for logs.
+ */
+export const sortColumnsByTime = (columns: ShipColumns): ShipColumns => {
+  const { length, time } = columns;
+
+  let isSorted = true;
+  for (let i = 1; i < length; i++) {
+    if (time[i] < time[i - 1]) {
+      isSorted = false;
+      break;
+    }
+  }
+  if (isSorted) return columns;
+
+  const order = new Uint32Array(length);
+  for (let i = 0; i < length; i++) order[i] = i;
+  order.sort((a, b) => time[a] - time[b]);
+
+  const reorder = (values: Float64Array) => {
+    const sorted = new Float64Array(length);
+    for (let i = 0; i < length; i++) sorted[i] = values[order[i]];
+    return sorted;
+  };
+
+  return {
+    length,
+    time: reorder(time),
+    channels: Object.fromEntries(
+      ALL_SHIP_CHANNELS.map(channel => [channel, reorder(columns.channels[channel])])
+    ) as Record<ShipChannel, Float64Array>,
+  };
+};
+
+/**
+ * Appends one set of columns to another and restores the time order
+ */
+export const concatColumns = (a: ShipColumns, b: ShipColumns): ShipColumns => {
+  const length = a.length + b.length;
+  const concat = (x: Float64Array, y: Float64Array) => {
+    const result = new Float64Array(length);
+    result.set(x.subarray(0, a.length), 0);
+    result.set(y.subarray(0, b.length), a.length);
+    return result;
+  };
+
+  return sortColumnsByTime({
+    length,
+    time: concat(a.time, b.time),
+    channels: Object.fromEntries(
+      ALL_SHIP_CHANNELS.map(channel => [channel, concat(a.channels[channel], b.channels[channel])])
+    ) as Record<ShipChannel, Float64Array>,
+  });
+};
+
+/**
+ * Builds ship columns incrementally from parsed CSV rows
+ * Buffers grow geometrically, so rows can be added chunk by chunk without keeping row objects around.
+ * Rows without a valid datetime are dropped. Derived channels are left as NaN.
+ */
+export class ShipColumnBuilder {
+  private capacity = 1024;
+  private time = new Float64Array(this.capacity);
+  private channels = Object.fromEntries(
+    SHIP_CHANNELS.map(channel => [channel, new Float64Array(this.capacity)])
+  ) as Record<ParsedShipChannel, Float64Array>;
+  length = 0;
+  droppedRows = 0;
+
+  add(rows: ShipData[]): void {
+    this.reserve(this.length + rows.length);
+
+    for (let r = 0; r < rows.length; r++) {
+      const row = rows[r];
+      const timestamp = toEpochMs(row.datetime);
+      if (isNaN(timestamp)) {
+        this.droppedRows++;
+        continue;
+      }
+
+      const i = this.length++;
+      this.time[i] = timestamp;
+      for (let c = 0; c < SHIP_CHANNELS.length; c++) {
+        const channel = SHIP_CHANNELS[c];
+        const value = row[channel];
+        this.channels[channel][i] = typeof value === 'number' ? value : NaN;
+      }
+    }
+  }
+
+  finish(): ShipColumns {
+    const trim = (values: Float64Array) => values.slice(0, this.length);
+    return sortColumnsByTime({
+      length: this.length,
+      time: trim(this.time),
+      channels: Object.fromEntries([
+        ...SHIP_CHANNELS.map(channel => [channel, trim(this.channels[channel])]),
+        ...DERIVED_CHANNELS.map(channel => [channel, new Float64Array(this.length).fill(NaN)]),
+      ]) as Record<ShipChannel, Float64Array>,
+    });
+  }
+
+  private reserve(size: number): void {
+    if (size <= this.capacity) return;
+    while (this.capacity < size) this.capacity *= 2;
+
+    const grow = (values: Float64Array) => {
+      const grown = new Float64Array(this.capacity);
+      grown.set(values.subarray(0, this.length));
+      return grown;
+    };
+    this.time = grow(this.time);
+    SHIP_CHANNELS.forEach(channel => {
+      this.channels[channel] = grow(this.channels[channel]);
+    });
+  }
+}
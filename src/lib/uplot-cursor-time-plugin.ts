@@ -0,0 +1,53 @@
+import uPlot from 'uplot';
+import { useCursorTimeStore } from '@/Store/cursorTimeStore';
+
+// uPlot sync key of the time-series charts, which keeps their zoom and crosshair in step
+export const TIME_SYNC_KEY = 'time';
+
+// Cursor store source of the time-series charts; they already follow each other through the sync key
+export const TIME_CHART_SOURCE = 'timeSeries';
+
+/**
+ * Cursor-time plugin for time-series charts (x in seconds)
+ * Publishes the time under the cursor to the cursor-time store while the chart is hovered,
+ * and moves the crosshair to the stored time when another panel (e.g. the position plot) sets it.
+ */
+export const cursorTimePlugin = (): uPlot.Plugin => {
+  let unsubscribe: (() => void) | null = null;
+
+  // Moves the crosshair without firing the setCursor hook, so the update is not published back
+  const showTime = (u: uPlot, time: number | null) => {
+    const left = time === null ? -1 : u.valToPos(time / 1000, 'x');
+    if (left < 0 || left > u.over.clientWidth) {
+      u.setCursor({ left: -10, top: -10 }, false);
+    } else {
+      u.setCursor({ left, top: u.over.clientHeight / 2 }, false);
+    }
+  };
+
+  return {
+    hooks: {
+      ready: [
+        (u) => {
+          unsubscribe = useCursorTimeStore.subscribe((state) => {
+            if (state.source !== TIME_CHART_SOURCE) showTime(u, state.time);
+          });
+        },
+      ],
+      setCursor: [
+        (u) => {
+          // Only the chart under the mouse publishes; synced charts have no cursor event
+          if (!u.cursor.event) return;
+          const left = u.cursor.left ?? -1;
+          const time = left < 0 ? null : u.posToVal(left, 'x') * 1000;
+          useCursorTimeStore.getState().setCursorTime(time, TIME_CHART_SOURCE);
+        },
+      ],
+      destroy: [
+        () => {
+          unsubscribe?.();
+        },
+      ],
+    },
+  };
+};
@@ -0,0 +1,66 @@
+import uPlot from 'uplot';
+
+/**
+ * Equal-aspect plugin for x/y charts in the same unit, e.g. projected metres
+ * Whenever either scale or the plot size changes, the scale with fewer units per pixel is
+ * widened about its centre, so one unit spans the same distance on both axes (1:1).
+ * @param opts.xScale Key of the horizontal scale (default 'x')
+ * @param opts.yScale Key of the vertical scale (default 'y')
+ */
+export const equalAspectPlugin = (opts: { xScale?: string; yScale?: string } = {}): uPlot.Plugin => {
+  const xKey = opts.xScale ?? 'x';
+  const yKey = opts.yScale ?? 'y';
+  let pending = false;
+  let destroyed = false;
+
+  const enforce = (u: uPlot) => {
+    const x = u.scales[xKey];
+    const y = u.scales[yKey];
+    const { width, height } = u.bbox;
+    if (x.min == null || x.max == null || y.min == null || y.max == null || !width || !height) return;
+
+    const xPerPx = (x.max - x.min) / width;
+    const yPerPx = (y.max - y.min) / height;
+    if (!(xPerPx > 0) || !(yPerPx > 0)) return;
+    // Tolerate rounding so the adjustment does not trigger itself again
+    if (Math.abs(xPerPx - yPerPx) <= 1e-9 * Math.max(xPerPx, yPerPx)) return;
+
+    const perPx = Math.max(xPerPx, yPerPx);
+    u.batch(() => {
+      if (xPerPx < perPx) {
+        const mid = (x.min! + x.max!) / 2;
+        u.setScale(xKey, { min: mid - perPx * width / 2, max: mid + perPx * width / 2 });
+      } else {
+        const mid = (y.min! + y.max!) / 2;
+        u.setScale(yKey, { min: mid - perPx * height / 2, max: mid + perPx * height / 2 });
+      }
+    });
+  };
+
+  // Deferred so that both scales of a zoom have been committed before they are compared
+  const schedule = (u: uPlot) => {
+    if (pending) return;
+    pending = true;
+    queueMicrotask(() => {
+      pending = false;
+      if (!destroyed) enforce(u);
+    });
+  };
+
+  return {
+    hooks: {
+      ready: [schedule],
+      setSize: [schedule],
+      setScale: [
+        (u, scaleKey) => {
+          if (scaleKey === xKey || scaleKey === yKey) schedule(u);
+        },
+      ],
+      destroy: [
+        () => {
+          destroyed = true;
+        },
+      ],
+    },
+  };
+};
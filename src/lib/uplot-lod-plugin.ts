@@ -0,0 +1,68 @@
+import uPlot from 'uplot';
+import { lowerBound, upperBound } from '@/lib/UPlot.utils';
+
+/**
+ * Level-of-detail plugin for time-series charts
+ * Whenever the x scale changes (wheel zoom, drag zoom, pan or synced cursor), the chart
+ * re-queries its data for the visible range so zooming in shows full resolution and
+ * zooming out falls back to the decimated overview. Scales are kept as they are.
+ * @param opts.getData Returns chart data for the visible x-range (in seconds)
+ * @param opts.delay Debounce delay in ms so continuous zooming does not re-query every frame
+ */
+export const lodPlugin = (opts: {
+  getData: (min: number, max: number) => uPlot.AlignedData | null;
+  delay?: number;
+}): uPlot.Plugin => {
+  const delay = opts.delay ?? 100;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  return {
+    hooks: {
+      setScale: [
+        (u, scaleKey) => {
+          if (scaleKey !== 'x') return;
+          if (timer) clearTimeout(timer);
+
+          timer = setTimeout(() => {
+            timer = null;
+            const { min, max } = u.scales.x;
+            if (min == null || max == null) return;
+
+            const data = opts.getData(min, max);
+            if (!data) return;
+            u.setData(data, false);
+            u.redraw();
+          }, delay);
+        },
+      ],
+      destroy: [
+        () => {
+          if (timer) clearTimeout(timer);
+        },
+      ],
+    },
+  };
+};
+
+/**
+ * Rows of a time window that are visible in an x-range, padded by half the visible span
+ * on each side so short pans do not reveal empty space before the next re-query
+ * @param time Sorted epoch-millisecond time column
+ * @param startIdx Start of the active time window
+ * @param endIdx End of the active time window (exclusive)
+ * @param min Visible x minimum in seconds
+ * @param max Visible x maximum in seconds
+ * @returns Half-open index range [from, to) within [startIdx, endIdx)
+ */
+export const findVisibleWindow = (
+  time: Float64Array,
+  startIdx: number,
+  endIdx: number,
+  min: number,
+  max: number
+): [number, number] => {
+  const padding = (max - min) * 500;
+  const from = Math.max(startIdx, lowerBound(time, min * 1000 - padding));
+  const to = Math.min(endIdx, upperBound(time, max * 1000 + padding));
+  return [from, Math.max(from, to)];
+};
@@ -0,0 +1,62 @@
+import uPlot from 'uplot';
+import { useDateRangeStore } from '@/Store/dateRangeStore';
+import { usePlotSettingsStore } from '@/Store/plotSettingsStore';
+
+/**
+ * Range-zoom plugin for time-series charts (x in seconds)
+ * With "zoom sets range" switched on, a drag zoom, wheel zoom or pan made on this chart is
+ * committed to the date range store once it settles, so the slider and every panel follow it.
+ * Scale changes from data updates or from synced charts are not committed.
+ * @param opts.delay Debounce delay in ms so continuous zooming commits only once
+ */
+export const rangeZoomPlugin = (opts: { delay?: number } = {}): uPlot.Plugin => {
+  const delay = opts.delay ?? 400;
+  let userZoom = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Scale changes count as the user's until uPlot has finished handling the mouse or wheel event
+  const startUserZoom = () => {
+    userZoom = true;
+  };
+  const endUserZoom = () => {
+    setTimeout(() => {
+      userZoom = false;
+    });
+  };
+  const handleWheel = () => {
+    startUserZoom();
+    endUserZoom();
+  };
+
+  return {
+    hooks: {
+      init: [
+        (u) => {
+          // Capture phase, so the flag is set before the zoom and pan handlers run
+          u.over.addEventListener('mousedown', startUserZoom, true);
+          u.over.addEventListener('wheel', handleWheel, true);
+          document.addEventListener('mouseup', endUserZoom);
+        },
+      ],
+      setScale: [
+        (u, scaleKey) => {
+          if (scaleKey !== 'x' || !userZoom || !usePlotSettingsStore.getState().zoomSetsRange) return;
+          if (timer) clearTimeout(timer);
+
+          timer = setTimeout(() => {
+            timer = null;
+            const { min, max } = u.scales.x;
+            if (min == null || max == null) return;
+            useDateRangeStore.getState().setDateRange(min * 1000, max * 1000);
+          }, delay);
+        },
+      ],
+      destroy: [
+        () => {
+          if (timer) clearTimeout(timer);
+          document.removeEventListener('mouseup', endUserZoom);
+        },
+      ],
+    },
+  };
+};
@@ -0,0 +1,202 @@
+import { TimeSegment, useDateRangeStore } from '@/Store/dateRangeStore';
+import { usePlotSettingsStore } from '@/Store/plotSettingsStore';
+import { PlotExtent, usePositionViewStore } from '@/Store/positionViewStore';
+import { useReceiverStore, useShipStore } from '@/Store/shipStore';
+
+// The URL is rewritten at most this often while the view changes
+const URL_UPDATE_DELAY_MS = 500;
+
+/**
+ * View state shared through the URL query string
+ * Datasets are file names in public/data or full URLs; series are `plot.series` keys.
+ */
+export interface UrlState {
+  ship: string | null;
+  receiver: string | null;
+  minDate: number | null;
+  maxDate: number | null;
+  segments: TimeSegment[];   // Passes selected on the position plot
+  hiddenPanels: string[];
+  shownSeries: string[];
+  hiddenSeries: string[];
+  metric: boolean;
+  useQuadtree: boolean;
+  extent: PlotExtent | null;
+}
+
+const parseList = (value: string | null): string[] => value ? value.split(',').filter(Boolean) : [];
+
+const parseDate = (value: string | null): number | null => {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? null : time;
+};
+
+// Segments are written as from/to pairs of ISO times separated by commas
+const parseSegments = (value: string | null): TimeSegment[] => {
+  const segments: TimeSegment[] = [];
+  parseList(value).forEach(pair => {
+    const [from, to] = pair.split('/');
+    const start = parseDate(from);
+    const end = parseDate(to ?? null);
+    if (start !== null && end !== null && start <= end) segments.push([start, end]);
+  });
+  return segments.sort((a, b) => a[0] - b[0]);
+};
+
+const parseExtent = (value: string | null): PlotExtent | null => {
+  const values = parseList(value).map(Number);
+  if (values.length !== 4 || values.some(isNaN)) return null;
+  const [xMin, xMax, yMin, yMax] = values;
+  return { xMin, xMax, yMin, yMax };
+};
+
+/**
+ * Reads the view state from a query string
+ * @returns The state, or null when the query string holds none (not a shared link)
+ */
+export const parseUrlState = (search: string): UrlState | null => {
+  const params = new URLSearchParams(search);
+  if ([...params.keys()].length === 0) return null;
+
+  return {
+    ship: params.get('ship'),
+    receiver: params.get('rx'),
+    minDate: parseDate(params.get('from')),
+    maxDate: parseDate(params.get('to')),
+    segments: parseSegments(params.get('segments')),
+    hiddenPanels: parseList(params.get('panels-off')),
+    shownSeries: parseList(params.get('series-on')),
+    hiddenSeries: parseList(params.get('series-off')),
+    metric: params.get('metric') === '1',
+    useQuadtree: params.get('quadtree') === '1',
+    extent: parseExtent(params.get('extent')),
+  };
+};
+
+/**
+ * Writes the view state as a query string, leaving out values at their defaults
+ */
+export const formatUrlState = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  if (state.ship) params.set('ship', state.ship);
+  if (state.receiver) params.set('rx', state.receiver);
+  if (state.minDate !== null) params.set('from', new Date(state.minDate).toISOString());
+  if (state.maxDate !== null) params.set('to', new Date(state.maxDate).toISOString());
+  if (state.segments.length) {
+    params.set('segments', state.segments
+      .map(([from, to]) => `${new Date(from).toISOString()}/${new Date(to).toISOString()}`)
+      .join(','));
+  }
+  if (state.hiddenPanels.length) params.set('panels-off', state.hiddenPanels.join(','));
+  if (state.shownSeries.length) params.set('series-on', state.shownSeries.join(','));
+  if (state.hiddenSeries.length) params.set('series-off', state.hiddenSeries.join(','));
+  if (state.metric) params.set('metric', '1');
+  if (state.useQuadtree) params.set('quadtree', '1');
+  if (state.extent) {
+    const { xMin, xMax, yMin, yMax } = state.extent;
+    // Eight significant digits are about a metre in both degrees and UTM metres
+    params.set('extent', [xMin, xMax, yMin, yMax].map(v => Number(v.toPrecision(8))).join(','));
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+/**
+ * Collects the view state from the stores
+ */
+export const captureUrlState = (): UrlState => {
+  const { minDate, maxDate, segments } = useDateRangeStore.getState();
+  const { hiddenPanels, seriesVisibility } = usePlotSettingsStore.getState();
+  const { metric, useQuadtree, extent } = usePositionViewStore.getState();
+
+  const shownSeries: string[] = [];
+  const hiddenSeries: string[] = [];
+  Object.entries(seriesVisibility).forEach(([plot, series]) => {
+    Object.entries(series).forEach(([key, visible]) => {
+      (visible ? shownSeries : hiddenSeries).push(`${plot}.${key}`);
+    });
+  });
+
+  return {
+    ship: useShipStore.getState().source,
+    receiver: useReceiverStore.getState().source,
+    minDate,
+    maxDate,
+    segments,
+    hiddenPanels,
+    shownSeries,
+    hiddenSeries,
+    metric,
+    useQuadtree,
+    extent,
+  };
+};
+
+/**
+ * Restores the view state into the stores; datasets are loaded separately, before this
+ * Everything not in the link is reset, so the view matches the one that was shared.
+ */
+export const applyUrlState = (state: UrlState) => {
+  // Segments set a range spanning them, which the saved range then overrides if it differs
+  if (state.segments.length) {
+    useDateRangeStore.getState().setDateSegments(state.segments);
+  }
+  if (state.minDate !== null && state.maxDate !== null) {
+    useDateRangeStore.getState().setDateRange(state.minDate, state.maxDate);
+  }
+
+  const seriesVisibility: Record<string, Record<string, boolean>> = {};
+  const setVisible = (id: string, visible: boolean) => {
+    const [plot, key] = id.split('.');
+    if (plot && key) seriesVisibility[plot] = { ...seriesVisibility[plot], [key]: visible };
+  };
+  state.shownSeries.forEach(id => setVisible(id, true));
+  state.hiddenSeries.forEach(id => setVisible(id, false));
+  usePlotSettingsStore.setState({ seriesVisibility, hiddenPanels: state.hiddenPanels });
+
+  const positionView = usePositionViewStore.getState();
+  positionView.setMetric(state.metric);
+  positionView.setUseQuadtree(state.useQuadtree);
+  positionView.setPendingExtent(state.extent);
+};
+
+/**
+ * Link to the current view, for copying without waiting for the URL to update
+ */
+export const getShareLink = (): string => {
+  const { origin, pathname, hash } = window.location;
+  return `${origin}${pathname}${formatUrlState(captureUrlState())}${hash}`;
+};
+
+/**
+ * Keeps the URL in step with the view state, replacing the history entry so
+ * the back button is not flooded with every change
+ * @returns A function that stops updating the URL
+ */
+export const startUrlSync = (): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const update = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const { pathname, hash } = window.location;
+      window.history.replaceState(window.history.state, '', `${pathname}${formatUrlState(captureUrlState())}${hash}`);
+    }, URL_UPDATE_DELAY_MS);
+  };
+
+  const unsubscribers = [
+    useDateRangeStore.subscribe(update),
+    usePlotSettingsStore.subscribe(update),
+    usePositionViewStore.subscribe(update),
+    useShipStore.subscribe(update),
+    useReceiverStore.subscribe(update),
+  ];
+  update();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+  };
+};
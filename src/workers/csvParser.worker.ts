@@ -0,0 +1,107 @@
+/**
+ * CSV parser worker
+ *
+ * Streams a CSV file, URL or string through Papa in chunks off the main thread,
+ * builds ship columns (or receiver rows) and posts progress (rows, bytes, ETA) back to the caller.
+ * Ship column buffers are transferred, not copied, to the main thread.
+ * A 'cancel' message aborts the parse at the next chunk.
+ */
+import Papa from 'papaparse';
+import { createTransformHeader } from '@/lib/columnMapping';
+import { CsvSource, CsvWorkerRequest, CsvWorkerResponse, toReceiverData } from '@/lib/csvIngest';
+import { ShipColumnBuilder, getColumnBuffers } from '@/lib/shipColumns';
+import type { ShipData, ReceiverData } from '@/Store/shipStore';
+
+// Chunk size small enough for smooth progress updates
+const CHUNK_SIZE = 1024 * 1024;
+
+const ctx = self as unknown as Worker;
+let activeParser: Papa.Parser | null = null;
+let isCancelled = false;
+
+const post = (message: CsvWorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+// Turns any source into a Blob so Papa can stream it with a known size
+const toBlob = async (source: CsvSource): Promise<Blob> => {
+  if ('file' in source) return source.file;
+  if ('text' in source) return new Blob([source.text], { type: 'text/csv' });
+
+  const response = await fetch(source.url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch data: ${response.status} ${response.statusText}`);
+  }
+  return response.blob();
+};
+
+ctx.onmessage = async (e: MessageEvent<CsvWorkerRequest>) => {
+  const request = e.data;
+
+  if (request.type === 'cancel') {
+    isCancelled = true;
+    activeParser?.abort();
+    return;
+  }
+
+  try {
+    const blob = await toBlob(request.source);
+    const headers: string[] = [];
+    const shipBuilder = new ShipColumnBuilder();
+    const receiverRows: ReceiverData[] = [];
+    const rowCount = () => request.kind === 'ship' ? shipBuilder.length : receiverRows.length;
+    const startTime = performance.now();
+
+    if (isCancelled) {
+      post({ type: 'cancelled' });
+      return;
+    }
+
+    Papa.parse<ShipData & ReceiverData>(blob as File, {
+      header: true,
+      skipEmptyLines: true,
+      dynamicTyping: true,
+      chunkSize: CHUNK_SIZE,
+      transformHeader: createTransformHeader(request.kind, request.mapping, (header) => headers.push(header)),
+      chunk: (results, parser) => {
+        activeParser = parser;
+        if (isCancelled) {
+          parser.abort();
+          return;
+        }
+        if (results.errors.length > 0) {
+          console.warn("CSV parsing errors:", results.errors);
+        }
+
+        if (request.kind === 'ship') {
+          shipBuilder.add(results.data);
+        } else {
+          const normalized = toReceiverData(results.data);
+          for (let i = 0; i < normalized.length; i++) receiverRows.push(normalized[i]);
+        }
+
+        // Estimate the remaining time from the average throughput so far
+        const bytes = Math.min(results.meta.cursor, blob.size);
+        const elapsed = performance.now() - startTime;
+        const etaMs = bytes > 0 ? elapsed * (blob.size - bytes) / bytes : null;
+        post({ type: 'progress', progress: { rows: rowCount(), bytes, totalBytes: blob.size, etaMs } });
+      },
+      complete: () => {
+        if (isCancelled) {
+          post({ type: 'cancelled' });
+          return;
+        }
+        if (request.kind === 'ship') {
+          if (shipBuilder.droppedRows > 0) {
+            console.warn(`Dropped ${shipBuilder.droppedRows} rows without a valid datetime`);
+          }
+          const columns = shipBuilder.finish();
+          post({ type: 'done', data: columns, headers }, getColumnBuffers(columns));
+        } else {
+          post({ type: 'done', data: receiverRows, headers });
+        }
+      },
+      error: (error) => post({ type: 'error', message: error.message }),
+    });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * Navigation worker
+ *
+ * Computes the derived ship channels (velocity, UTM, layback, LBL and antenna positions)
+ * off the main thread, so large logs and settings changes do not freeze the page.
+ * Derived channel buffers are transferred, not copied, to the main thread.
+ */
+import { computeDerivedChannels, NavigationWorkerRequest, NavigationWorkerResponse } from '@/lib/navigation';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: NavigationWorkerResponse, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+ctx.onmessage = (e: MessageEvent<NavigationWorkerRequest>) => {
+  try {
+    const channels = computeDerivedChannels(e.data.columns, e.data.settings);
+    post({ type: 'done', channels }, Object.values(channels).map(values => values.buffer as ArrayBuffer));
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};